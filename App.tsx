@@ -1,98 +1,679 @@
-import React, { useState } from 'react';
-import ParticleCanvas from './components/ParticleCanvas';
-import { ParticleSettings } from './types';
-import { MagicWandIcon, UploadIcon } from './components/Icons';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import ParticleCanvas, { ParticleCanvasHandle } from './components/ParticleCanvas';
+import { InteractionMode, LightSettings, LoveMessage, ParticleSettings, PhotoFraming, PhotoSamplingOptions, SceneMode, Slide, SnowSettings, StoryStep, TextSceneOptions, TreeOptions, View3DSettings } from './types';
+import ControlPanel from './components/ControlPanel';
+import CrossfadeBackground from './components/CrossfadeBackground';
+import LoveMessageCard from './components/LoveMessageCard';
+import MessageComposer from './components/MessageComposer';
+import RecorderPanel from './components/RecorderPanel';
+import SlideshowPanel, { SlideshowControls } from './components/SlideshowPanel';
+import TextScenePanel from './components/TextScenePanel';
+import PhotoScenePanel from './components/PhotoScenePanel';
+import ScenePickerPanel from './components/ScenePickerPanel';
+import StoryPanel, { StoryCaption, StoryControls } from './components/StoryPanel';
+import FramingEditor from './components/FramingEditor';
+import PhotoLibraryPanel from './components/PhotoLibraryPanel';
+import CameraCapture from './components/CameraCapture';
+import { BookIcon, LinkIcon, MagicWandIcon, MusicIcon, PencilIcon, PhotoIcon, SlidersIcon, SpeakerIcon, SpeakerMutedIcon, UploadIcon, VideoIcon } from './components/Icons';
+import { SharedScene, buildShareLink, isShareableImage } from './utils/shareLink';
+import { readLaunchScene, storeLastScene } from './utils/lastScene';
+import { LibraryPhoto, deletePhoto, listPhotos, loadPhoto, savePhoto } from './utils/photoLibrary';
+import { useSlideshow } from './hooks/useSlideshow';
+import { useStory } from './hooks/useStory';
+import { useMusic } from './hooks/useMusic';
+import { useReducedMotion } from './hooks/useReducedMotion';
+import { useImageDrop } from './hooks/useImageDrop';
+import { preparePhoto } from './utils/photo';
+import { ImageInputError, checkImageUrl, errorMessage, imageFiles } from './utils/imageInput';
+import { describeScene } from './utils/sceneDescription';
+import { applyTheme } from './utils/theme';
+import { getTheme } from './themes';
+import { DEFAULT_SCENE_ID, getSceneGenerator } from './particles/sceneGenerators';
+import { randomSeed } from './particles/random';
+import { DEFAULT_FRAMING, DEFAULT_SNOW, DEFAULT_STORY_SECONDS, MAX_STORY_STEPS } from './constants';
 
-// Reverted to local file as requested. 
-// Ensure 'tree.jpg' exists in your public folder.
-const DEFAULT_IMAGE = "tree.jpg";
+type CopyStatus = 'idle' | 'copied' | 'copied-without-photo' | 'failed';
+
+const DEFAULT_SLIDE_HOLD = 5;
+// Scene edits come in bursts (sliders, typing), the last scene is saved once they settle
+const LAST_SCENE_DELAY = 1000;
+const PHOTO_ERROR_MS = 6000;
+// Matches the message overlay's fade-in, after which it hides the particles completely
+const MESSAGE_FADE_MS = 2000;
+
+const SCENE_MODES: { id: SceneMode; label: string }[] = [
+  { id: 'generative', label: 'Scene' }, // Shows the picked generator's name instead
+  { id: 'image', label: 'Photo' },
+  { id: 'text', label: 'Text' }
+];
 
 const App: React.FC = () => {
+  // A shared link restores the sender's scene, otherwise the last scene used on this device.
+  // Anything missing or invalid uses the defaults.
+  const [launch] = useState(readLaunchScene);
+  const initialScene = launch.scene;
+
   const [showLoveMessage, setShowLoveMessage] = useState(false);
-  const [bgImage, setBgImage] = useState<string>(DEFAULT_IMAGE);
-  const [mode, setMode] = useState<'generative' | 'image'>('generative');
-  
+  const [themeId, setThemeId] = useState(initialScene.theme);
+  const [seed, setSeed] = useState(initialScene.seed);
+  const theme = getTheme(themeId);
+  useEffect(() => applyTheme(theme), [theme]);
+  const [bgImage, setBgImage] = useState<string>(initialScene.image);
+  const [framing, setFraming] = useState<PhotoFraming>(initialScene.framing);
+  // Library id of the uploaded photo on screen, so the last scene can bring it back
+  const [photoId, setPhotoId] = useState<string | null>(null);
+  const [libraryPhotos, setLibraryPhotos] = useState<LibraryPhoto[]>([]);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  // Reading files or checking a link here, then the canvas decoding and sampling the photo
+  const [preparingPhoto, setPreparingPhoto] = useState(false);
+  const [canvasLoading, setCanvasLoading] = useState(false);
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const [showFramingEditor, setShowFramingEditor] = useState(false);
+  const [mode, setMode] = useState<SceneMode>(initialScene.mode);
+  const [sceneId, setSceneId] = useState(initialScene.scene);
+  const [treeOptions, setTreeOptions] = useState<TreeOptions>(initialScene.tree);
+  const [textScene, setTextScene] = useState<TextSceneOptions>(initialScene.text);
+  const [photoSampling, setPhotoSampling] = useState<PhotoSamplingOptions>(initialScene.sampling);
+  // Options for the current scene: which shape, text styling, or how the photo is turned into particles
+  const [showScenePanel, setShowScenePanel] = useState(false);
+  const [message, setMessage] = useState<LoveMessage>(initialScene.message);
+  const [isComposing, setIsComposing] = useState(false);
+  const [copyStatus, setCopyStatus] = useState<CopyStatus>('idle');
+  const [showRecorder, setShowRecorder] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const particleCanvasRef = useRef<ParticleCanvasHandle>(null);
+  const openButtonRef = useRef<HTMLButtonElement>(null);
+  const messageDialogRef = useRef<HTMLDivElement>(null);
+  const reducedMotion = useReducedMotion();
+
+  // Slideshow: only active with two or more photos
+  const [slides, setSlides] = useState<Slide[]>([]);
+  const [showSlidesPanel, setShowSlidesPanel] = useState(false);
+  const slideshow = useSlideshow(slides);
+  const currentSlide = slides[slideshow.index];
+
+  // Story: steps of scenes and captions ending on the message, a shared one plays right away
+  const [storySteps, setStorySteps] = useState<StoryStep[]>(initialScene.story);
+  const [showStoryPanel, setShowStoryPanel] = useState(false);
+  const story = useStory(storySteps, launch.shared);
+  const storyStep = story.step;
+  const stopStory = story.stop;
+  const slideshowActive = mode === 'image' && slides.length > 1 && !story.playing;
+
+  // The current slide drives the particles and both background layers
+  useEffect(() => {
+    if (!currentSlide) return;
+    setBgImage(currentSlide.src);
+    setFraming(currentSlide.framing);
+    setPhotoId(currentSlide.id);
+  }, [currentSlide]);
+
+  const refreshLibrary = useCallback(() => {
+    listPhotos().then(setLibraryPhotos).catch(e => console.warn("Could not read the photo library", e));
+  }, []);
+
+  useEffect(refreshLibrary, [refreshLibrary]);
+
+  // The last scene's photo comes back from the library
+  useEffect(() => {
+    const id = launch.photoId;
+    if (!id) return;
+    loadPhoto(id)
+      .then(src => {
+        if (!src) return;
+        setBgImage(src);
+        setPhotoId(id);
+        setMode('image');
+      })
+      .catch(e => console.warn("Could not restore the last photo", e));
+  }, [launch]);
+
   // Settings for the particles
-  const settings: ParticleSettings = {
-    gap: 5,             
-    size: 2.0,          
-    friction: 0.90,     
-    ease: 0.1,         
-    breathIntensity: 0.5 
-  };
+  const [settings, setSettings] = useState<ParticleSettings>(initialScene.settings);
+  const [showControls, setShowControls] = useState(false);
+  const [interaction, setInteraction] = useState<InteractionMode>('repel');
+  const [lights, setLights] = useState<LightSettings>(initialScene.lights);
+  const [snow, setSnow] = useState<SnowSettings>(DEFAULT_SNOW);
+  const [view3d, setView3d] = useState<View3DSettings>(initialScene.view3d);
+  // Depth for the current photo in the 3D view, it belongs to that photo only
+  const [depthMap, setDepthMap] = useState<string | null>(null);
+  useEffect(() => setDepthMap(null), [bgImage]);
+  const [autoQuality, setAutoQuality] = useState(true);
+  const [showStats, setShowStats] = useState(false);
+
+  // While a story plays, its current step decides what the particles and backgrounds show
+  const shownMode = storyStep?.mode ?? mode;
+  const shownSceneId = storyStep?.sceneId ?? sceneId;
+  const shownImage = storyStep?.mode === 'image' ? storyStep.image : bgImage;
+  const shownFraming = storyStep?.mode === 'image' ? storyStep.framing : framing;
+  const shownText = useMemo<TextSceneOptions>(
+    () => (storyStep?.mode === 'text' ? { ...textScene, text: storyStep.text } : textScene),
+    [storyStep, textScene]
+  );
+  // A cut swaps formations without morphing
+  const shownSettings = useMemo<ParticleSettings>(
+    () => (storyStep?.transition === 'cut' ? { ...settings, morphDuration: 0 } : settings),
+    [storyStep, settings]
+  );
+
+  // Backgrounds crop, turn and pan like the particles but always fill the screen
+  const backgroundFraming = useMemo<PhotoFraming>(() => ({ ...shownFraming, fit: 'cover' }), [shownFraming]);
+
+  // A scatter throws the particles apart as the next formation comes in
+  useEffect(() => {
+    if (storyStep?.transition === 'scatter') particleCanvasRef.current?.scatter();
+  }, [storyStep]);
+
+  // The story ends on the message, stepping back from it closes it again
+  useEffect(() => {
+    if (story.playing) setShowLoveMessage(story.atEnd);
+  }, [story.playing, story.atEnd]);
+
+  // Closing the message also leaves the story
+  const closeMessage = useCallback(() => {
+    setShowLoveMessage(false);
+    stopStory();
+  }, [stopStory]);
+
+  // The particles stop once the opened message fully covers them
+  const [particlesCovered, setParticlesCovered] = useState(false);
+  useEffect(() => {
+    if (!showLoveMessage) {
+      setParticlesCovered(false);
+      return;
+    }
+    const timer = setTimeout(() => setParticlesCovered(true), MESSAGE_FADE_MS);
+    return () => clearTimeout(timer);
+  }, [showLoveMessage]);
+
+  // Keyboard and screen reader users land in the opened message, Escape closes it again
+  // and puts focus back on the button that opened it
+  useEffect(() => {
+    if (!showLoveMessage) return;
+    messageDialogRef.current?.focus();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') closeMessage();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      if (messageDialogRef.current?.contains(document.activeElement)) openButtonRef.current?.focus();
+    };
+  }, [showLoveMessage, closeMessage]);
+
+  const messageText = [message.headline, message.subtitle, message.quote && `"${message.quote}"`, message.tagline]
+    .filter(Boolean)
+    .join('. ');
+
+  const sceneDescription = describeScene({
+    mode: shownMode,
+    sceneId: shownSceneId,
+    text: shownText,
+    photoCount: Math.max(1, slides.length),
+    snow: snow.enabled && !reducedMotion
+  });
+
+  // Background music fades while the message is open and drives the particles while it plays
+  const music = useMusic(showLoveMessage, levels => particleCanvasRef.current?.setAudioLevels(levels));
 
   const handleScreenClick = (e: React.MouseEvent) => {
     // Prevent triggering if clicking controls
     if ((e.target as HTMLElement).closest('button') || (e.target as HTMLElement).closest('label')) return;
+    // The recording scripts its own reveal
+    if (isRecording) return;
+    // In burst mode a tap is for the particles
+    if (interaction === 'burst' && !showLoveMessage) return;
+
+    // Tap moves the story on, past its last step to the message
+    if (story.playing && !showLoveMessage) {
+      story.next();
+      return;
+    }
+
+    // Tap advances the slideshow, the message opens from the last photo
+    if (slideshowActive && !showLoveMessage && !slideshow.isLast) {
+      slideshow.next();
+      return;
+    }
     
     // Toggle the state allows opening and closing the overlay
-    setShowLoveMessage(prev => !prev);
+    if (showLoveMessage) {
+      closeMessage();
+    } else {
+      setShowLoveMessage(true);
+    }
+  };
+
+  // A step remembers the scene on screen now, so the story can come back to it
+  const handleAddStoryStep = () => {
+    if (storySteps.length >= MAX_STORY_STEPS) return;
+    setStorySteps(prev => [...prev, {
+      id: `${Date.now()}`,
+      mode,
+      sceneId,
+      image: bgImage,
+      framing,
+      text: textScene.text,
+      caption: '',
+      advance: 'tap',
+      seconds: DEFAULT_STORY_SECONDS,
+      transition: 'morph'
+    }]);
+  };
+
+  const loadPhotoFiles = async (files: File[]) => {
+    const images = imageFiles(files);
+    if (images.length === 0) {
+      if (files.length > 0) setPhotoError("Those files aren't images.");
+      return;
+    }
+
+    setPreparingPhoto(true);
+    try {
+      const sources = await Promise.all(images.map(preparePhoto));
+      // Slides take their library ids; one that couldn't be stored still plays, it just won't come back
+      const ids = await Promise.all(sources.map((src, i) => savePhoto(src).catch(e => {
+        console.warn("Could not add the photo to the library", e);
+        return `${Date.now()}-${i}`;
+      })));
+      refreshLibrary();
+      setSlides(sources.length > 1
+        ? sources.map((src, i) => ({ id: ids[i], src, holdSeconds: DEFAULT_SLIDE_HOLD, framing: DEFAULT_FRAMING }))
+        : []);
+      slideshow.restart();
+      setBgImage(sources[0]);
+      setPhotoId(ids[0]);
+      setFraming(DEFAULT_FRAMING);
+      setMode('image'); // Switch to image mode to show particles of the photo
+      setShowFramingEditor(true);
+    } catch (err) {
+      console.error("Failed to read photos", err);
+      setPhotoError(errorMessage(err));
+    } finally {
+      setPreparingPhoto(false);
+    }
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    loadPhotoFiles(files);
+  };
+
+  // Linked photos aren't copied into the library, the link itself goes into shared scenes
+  const handleImageUrl = async (url: string) => {
+    setPreparingPhoto(true);
+    try {
+      const src = await checkImageUrl(url);
+      setSlides([]);
+      setBgImage(src);
+      setPhotoId(null);
+      setFraming(DEFAULT_FRAMING);
+      setMode('image');
+      return true;
+    } catch (err) {
+      console.error("Failed to load image link", err);
+      setPhotoError(errorMessage(err));
+      return false;
+    } finally {
+      setPreparingPhoto(false);
+    }
+  };
+
+  const handleDepthMapFile = async (file: File) => {
+    if (imageFiles([file]).length === 0) {
+      setPhotoError("That file isn't an image.");
+      return;
+    }
+    try {
+      setDepthMap(await preparePhoto(file));
+    } catch (err) {
+      console.error("Failed to read depth map", err);
+      setPhotoError(errorMessage(err));
+    }
+  };
+
+  const handleCameraCapture = (file: File) => {
+    setShowCamera(false);
+    loadPhotoFiles([file]);
+  };
+
+  // The canvas already shows the tree instead; the controls follow, unless a story owns the scene
+  const handleImageError = (error: ImageInputError) => {
+    setPhotoError(error.message);
+    if (story.playing) return;
+    setMode('generative');
+    setSceneId(DEFAULT_SCENE_ID);
+  };
+
+  const dragging = useImageDrop({ onFiles: loadPhotoFiles, onUrl: handleImageUrl }, !isRecording && !showCamera);
+
+  useEffect(() => {
+    if (!photoError) return;
+    const timer = setTimeout(() => setPhotoError(null), PHOTO_ERROR_MS);
+    return () => clearTimeout(timer);
+  }, [photoError]);
+
+  const handleLibrarySelect = async (id: string) => {
+    try {
+      const src = await loadPhoto(id);
+      if (!src) {
+        refreshLibrary();
+        return;
+      }
+      setSlides([]);
+      setBgImage(src);
+      setPhotoId(id);
+      setFraming(DEFAULT_FRAMING);
+      setMode('image');
+    } catch (err) {
+      console.error("Failed to load photo", err);
+    }
+  };
+
+  const handleLibraryDelete = async (id: string) => {
+    try {
+      await deletePhoto(id);
+    } catch (err) {
+      console.error("Failed to delete photo", err);
+    }
+    if (id === photoId) setPhotoId(null);
+    refreshLibrary();
+  };
+
+  // A slide keeps its own framing, so the slideshow can come back to it
+  const handleFramingSave = (next: PhotoFraming) => {
+    if (slideshowActive && currentSlide) {
+      setSlides(prev => prev.map(slide => (slide.id === currentSlide.id ? { ...slide, framing: next } : slide)));
+    } else {
+      setFraming(next);
+    }
+  };
+
+  const handleMusicUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          setBgImage(e.target.result as string);
-          setMode('image'); // Switch to image mode to show particles of the photo
-        }
-      };
-      reader.readAsDataURL(file);
+    event.target.value = '';
+    if (file) music.load(file);
+  };
+
+  const currentScene = useMemo<SharedScene>(() => ({
+    message, theme: themeId, mode, scene: sceneId, tree: treeOptions, lights, settings, image: bgImage, text: textScene, sampling: photoSampling, framing, story: storySteps, seed, view3d
+  }), [message, themeId, mode, sceneId, treeOptions, lights, settings, bgImage, textScene, photoSampling, framing, storySteps, seed, view3d]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => storeLastScene({ scene: currentScene, photoId: mode === 'image' ? photoId : null }), LAST_SCENE_DELAY);
+    return () => clearTimeout(timer);
+  }, [currentScene, mode, photoId]);
+
+  const handleCopyLink = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const link = buildShareLink(currentScene);
+    const photosLeftOut = !isShareableImage(bgImage) || storySteps.some(step => step.mode === 'image' && !isShareableImage(step.image));
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopyStatus(photosLeftOut ? 'copied-without-photo' : 'copied');
+    } catch (err) {
+      console.error("Failed to copy link", err);
+      setCopyStatus('failed');
     }
+    setTimeout(() => setCopyStatus('idle'), 2500);
+  };
+
+  const handleModeChange = (next: SceneMode) => {
+    setMode(next);
+    setShowScenePanel(true);
   };
 
+  const copyLabel = {
+    idle: 'Copy Link',
+    copied: 'Link Copied',
+    'copied-without-photo': 'Copied (photo not included)',
+    failed: 'Copy Failed'
+  }[copyStatus];
+
   return (
     <div 
-      className="relative w-full h-screen bg-slate-950 overflow-hidden flex flex-col cursor-pointer group"
+      className="relative w-full h-screen bg-backdrop overflow-hidden flex flex-col cursor-pointer group"
       onClick={handleScreenClick}
     >
       
       {/* Layer 0: Subtle Background for Main Screen (So it's not pitch black) */}
-      <div 
-        className={`absolute inset-0 bg-cover bg-center transition-opacity duration-1000 ${showLoveMessage ? 'opacity-0' : 'opacity-40'}`}
-        style={{ backgroundImage: `url('${bgImage}')` }}
+      <CrossfadeBackground
+        src={shownImage}
+        framing={backgroundFraming}
+        className={`transition-opacity duration-1000 ${showLoveMessage ? 'opacity-0' : 'opacity-40'}`}
       />
-      <div className={`absolute inset-0 bg-slate-950/80 pointer-events-none transition-opacity duration-1000 ${showLoveMessage ? 'opacity-0' : 'opacity-100'}`}></div>
+      <div className={`absolute inset-0 bg-backdrop/80 pointer-events-none transition-opacity duration-1000 ${showLoveMessage ? 'opacity-0' : 'opacity-100'}`}></div>
 
       {/* Layer 1: The Particle Canvas (Fades out when clicked) */}
       <div className={`absolute inset-0 z-0 transition-opacity duration-[1500ms] ease-in-out ${showLoveMessage ? 'opacity-0' : 'opacity-100'}`}>
          <div className="w-full h-full">
             <ParticleCanvas 
-              settings={settings} 
-              variant={mode}
-              imageSrc={bgImage} 
+              ref={particleCanvasRef}
+              settings={shownSettings}
+              variant={shownMode === 'generative' ? shownSceneId : shownMode}
+              sceneOptions={shownSceneId === 'tree' ? treeOptions : undefined}
+              palette={theme.particles}
+              trail={theme.trail}
+              imageSrc={shownImage}
+              sampling={photoSampling}
+              framing={shownFraming}
+              text={shownText}
+              interaction={interaction}
+              lights={lights}
+              snow={snow}
+              ignorePointer={isRecording}
+              paused={particlesCovered}
+              autoQuality={autoQuality}
+              showStats={showStats}
+              reducedMotion={reducedMotion}
+              description={sceneDescription}
+              seed={seed}
+              view3d={view3d}
+              depthMap={shownImage === bgImage ? depthMap : null}
+              onImageLoading={setCanvasLoading}
+              onImageError={handleImageError}
             />
          </div>
       </div>
 
       {/* Layer 2: Intro Text & Controls (Fades out when clicked) */}
-      <div className={`absolute top-0 left-0 w-full p-8 z-10 pointer-events-none select-none transition-all duration-1000 ${showLoveMessage ? 'opacity-0 translate-y-[-50px]' : 'opacity-100'}`}>
+      <div
+        inert={showLoveMessage}
+        className={`absolute top-0 left-0 w-full p-8 z-10 pointer-events-none select-none transition-all duration-1000 ${showLoveMessage ? 'opacity-0 translate-y-[-50px] motion-reduce:translate-y-0' : 'opacity-100'}`}
+      >
         <div className="max-w-7xl mx-auto flex flex-col items-center md:items-start text-center md:text-left">
            <div className="flex items-center gap-3 mb-2 animate-fade-in-down">
-             <div className="p-2 bg-emerald-500/10 rounded-full backdrop-blur-md border border-emerald-500/20">
-                <MagicWandIcon className="w-5 h-5 text-emerald-200" />
+             <div className="p-2 bg-accent-500/10 rounded-full backdrop-blur-md border border-accent-500/20">
+                <MagicWandIcon className="w-5 h-5 text-accent-200" />
              </div>
-             <h2 className="text-emerald-300/80 text-xs font-bold tracking-[0.3em] uppercase font-cinzel">Noël Dreamscape</h2>
+             <h2 className="text-accent-300/80 text-xs font-bold tracking-[0.3em] uppercase font-eyebrow">{theme.strings.appName}</h2>
            </div>
-           <h1 className="font-serif text-5xl md:text-7xl text-white/90 drop-shadow-[0_0_25px_rgba(255,255,255,0.2)] animate-fade-in-up">
-            Merry <span className="italic text-emerald-100">Christmas</span>
+           <h1 className="font-display text-5xl md:text-7xl text-white/90 drop-shadow-[0_0_25px_rgba(255,255,255,0.2)] animate-fade-in-up">
+            {theme.strings.headline} <span className="italic text-accent-100">{theme.strings.headlineEmphasis}</span>
            </h1>
-           <p className="mt-4 text-emerald-100/50 text-xs tracking-[0.2em] animate-pulse">
-             TAP SCREEN TO OPEN
-           </p>
+           {/* The whole screen opens the message on tap, this is the same for keyboards and screen readers */}
+           <button
+             ref={openButtonRef}
+             onClick={(e) => { e.stopPropagation(); setShowLoveMessage(true); }}
+             className="mt-4 pointer-events-auto rounded text-accent-100/50 text-xs tracking-[0.2em] uppercase animate-pulse motion-reduce:animate-none focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-4 focus-visible:outline-accent-300/60"
+           >
+             {theme.strings.prompt}<span className="sr-only"> the message</span>
+           </button>
+        </div>
+      </div>
+
+      {/* Settings Toggle & Scene Switcher (Bottom Left) */}
+      <div
+        inert={showLoveMessage}
+        className={`absolute bottom-8 left-8 z-20 flex items-center gap-3 transition-all duration-500 ${showLoveMessage ? 'opacity-0 translate-y-10 motion-reduce:translate-y-0 pointer-events-none' : 'opacity-100'}`}
+      >
+        <button
+          onClick={(e) => { e.stopPropagation(); setShowControls(prev => !prev); }}
+          aria-pressed={showControls}
+          className={`flex items-center gap-3 px-5 py-3 border rounded-full backdrop-blur-md cursor-pointer transition-all shadow-lg shadow-accent-900/20 ${showControls ? 'bg-white/10 border-accent-500/30' : 'bg-white/5 hover:bg-white/10 border-white/10 group-hover:border-accent-500/30'}`}
+        >
+            <SlidersIcon className="w-5 h-5 text-accent-200" />
+            <span className="text-xs tracking-widest uppercase text-accent-100/80 font-semibold">Tune</span>
+        </button>
+        <div className="flex p-1 bg-white/5 border border-white/10 rounded-full backdrop-blur-md shadow-lg shadow-accent-900/20">
+          {SCENE_MODES.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={(e) => { e.stopPropagation(); handleModeChange(id); }}
+              aria-pressed={mode === id}
+              className={`px-4 py-2 rounded-full text-xs tracking-widest uppercase font-semibold transition-all ${mode === id ? 'bg-white/10 text-accent-100' : 'text-accent-100/50 hover:text-accent-100/80'}`}
+            >
+              {id === 'generative' ? getSceneGenerator(sceneId).label : label}
+            </button>
+          ))}
         </div>
+        <button
+          onClick={(e) => { e.stopPropagation(); setShowStoryPanel(prev => !prev); }}
+          aria-pressed={showStoryPanel}
+          className={`flex items-center gap-3 px-5 py-3 border rounded-full backdrop-blur-md cursor-pointer transition-all shadow-lg shadow-accent-900/20 ${showStoryPanel ? 'bg-white/10 border-accent-500/30' : 'bg-white/5 hover:bg-white/10 border-white/10 group-hover:border-accent-500/30'}`}
+        >
+            <BookIcon className="w-5 h-5 text-accent-200" />
+            <span className="text-xs tracking-widest uppercase text-accent-100/80 font-semibold">
+              Story{storySteps.length > 0 && ` · ${storySteps.length}`}
+            </span>
+        </button>
       </div>
 
-      {/* Upload Button (Bottom Right) */}
-      <div className={`absolute bottom-8 right-8 z-20 transition-all duration-500 ${showLoveMessage ? 'opacity-0 translate-y-10 pointer-events-none' : 'opacity-100'}`}>
-        <label className="flex items-center gap-3 px-5 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full backdrop-blur-md cursor-pointer transition-all group-hover:border-emerald-500/30 shadow-lg shadow-emerald-900/20">
-            <UploadIcon className="w-5 h-5 text-emerald-200" />
-            <span className="text-xs tracking-widest uppercase text-emerald-100/80 font-semibold">Change Photo</span>
+      {showStoryPanel && !story.playing && !showLoveMessage && (
+        <StoryPanel
+          steps={storySteps}
+          setSteps={setStorySteps}
+          story={story}
+          onAddStep={handleAddStoryStep}
+          onClose={() => setShowStoryPanel(false)}
+        />
+      )}
+
+      {/* Story caption over the particles */}
+      {storyStep?.caption && !story.atEnd && (
+        <div key={storyStep.id} className="absolute inset-x-0 bottom-40 z-10 flex justify-center px-8 pointer-events-none select-none">
+          <StoryCaption step={storyStep} />
+        </div>
+      )}
+
+      {showScenePanel && mode === 'generative' && !showLoveMessage && (
+        <ScenePickerPanel
+          sceneId={sceneId}
+          setSceneId={setSceneId}
+          tree={treeOptions}
+          setTree={setTreeOptions}
+          themeLights={theme.particles.lights}
+          onShuffle={() => setSeed(randomSeed())}
+          onClose={() => setShowScenePanel(false)}
+        />
+      )}
+
+      {showScenePanel && mode === 'text' && !showLoveMessage && (
+        <TextScenePanel options={textScene} setOptions={setTextScene} onClose={() => setShowScenePanel(false)} />
+      )}
+
+      {showScenePanel && mode === 'image' && !showLoveMessage && (
+        <PhotoScenePanel
+          options={photoSampling}
+          setOptions={setPhotoSampling}
+          onFrame={() => setShowFramingEditor(true)}
+          view3d={view3d.enabled}
+          depthMap={depthMap}
+          onDepthMapFile={handleDepthMapFile}
+          onClearDepthMap={() => setDepthMap(null)}
+          onClose={() => setShowScenePanel(false)}
+        />
+      )}
+
+      {showControls && !showLoveMessage && (
+        <ControlPanel
+          settings={settings}
+          setSettings={setSettings}
+          interaction={interaction}
+          setInteraction={setInteraction}
+          lights={lights}
+          setLights={setLights}
+          snow={snow}
+          setSnow={setSnow}
+          view3d={view3d}
+          setView3d={setView3d}
+          autoQuality={autoQuality}
+          setAutoQuality={setAutoQuality}
+          showStats={showStats}
+          setShowStats={setShowStats}
+          themeId={themeId}
+          setThemeId={setThemeId}
+        />
+      )}
+
+      {/* Share & Upload Buttons (Bottom Right) */}
+      <div
+        inert={showLoveMessage}
+        className={`absolute bottom-8 right-8 z-20 flex items-center gap-3 transition-all duration-500 ${showLoveMessage ? 'opacity-0 translate-y-10 motion-reduce:translate-y-0 pointer-events-none' : 'opacity-100'}`}
+      >
+        <button
+          onClick={(e) => { e.stopPropagation(); setIsComposing(true); }}
+          className="flex items-center gap-3 px-5 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full backdrop-blur-md cursor-pointer transition-all group-hover:border-accent-500/30 shadow-lg shadow-accent-900/20"
+        >
+            <PencilIcon className="w-5 h-5 text-accent-200" />
+            <span className="text-xs tracking-widest uppercase text-accent-100/80 font-semibold">Write Message</span>
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); setShowRecorder(prev => !prev); }}
+          aria-pressed={showRecorder}
+          className="flex items-center gap-3 px-5 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full backdrop-blur-md cursor-pointer transition-all group-hover:border-accent-500/30 shadow-lg shadow-accent-900/20"
+        >
+            <VideoIcon className="w-5 h-5 text-accent-200" />
+            <span className="text-xs tracking-widest uppercase text-accent-100/80 font-semibold">Record</span>
+        </button>
+        <button
+          onClick={handleCopyLink}
+          className="flex items-center gap-3 px-5 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full backdrop-blur-md cursor-pointer transition-all group-hover:border-accent-500/30 shadow-lg shadow-accent-900/20"
+        >
+            <LinkIcon className="w-5 h-5 text-accent-200" />
+            <span className="text-xs tracking-widest uppercase text-accent-100/80 font-semibold">{copyLabel}</span>
+        </button>
+        <label className="flex items-center gap-3 px-5 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full backdrop-blur-md cursor-pointer transition-all group-hover:border-accent-500/30 shadow-lg shadow-accent-900/20">
+            <MusicIcon className="w-5 h-5 text-accent-200" />
+            <span className="max-w-[10rem] truncate text-xs tracking-widest uppercase text-accent-100/80 font-semibold">
+              {music.trackName ? (music.playing ? music.trackName : 'Tap to play') : 'Add Music'}
+            </span>
+            <input
+              type="file"
+              accept="audio/*"
+              onChange={handleMusicUpload}
+              className="hidden"
+              onClick={(e) => e.stopPropagation()}
+            />
+        </label>
+        {music.trackName && (
+          <button
+            onClick={(e) => { e.stopPropagation(); music.toggleMuted(); }}
+            aria-label={music.muted ? 'Unmute music' : 'Mute music'}
+            aria-pressed={music.muted}
+            className="p-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full backdrop-blur-md cursor-pointer transition-all group-hover:border-accent-500/30 shadow-lg shadow-accent-900/20"
+          >
+            {music.muted ? <SpeakerMutedIcon className="w-5 h-5 text-accent-200" /> : <SpeakerIcon className="w-5 h-5 text-accent-200" />}
+          </button>
+        )}
+        <button
+          onClick={(e) => { e.stopPropagation(); setShowLibrary(prev => !prev); }}
+          aria-pressed={showLibrary}
+          className="flex items-center gap-3 px-5 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full backdrop-blur-md cursor-pointer transition-all group-hover:border-accent-500/30 shadow-lg shadow-accent-900/20"
+        >
+            <PhotoIcon className="w-5 h-5 text-accent-200" />
+            <span className="text-xs tracking-widest uppercase text-accent-100/80 font-semibold">Photos</span>
+        </button>
+        <label className="flex items-center gap-3 px-5 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-full backdrop-blur-md cursor-pointer transition-all group-hover:border-accent-500/30 shadow-lg shadow-accent-900/20">
+            <UploadIcon className="w-5 h-5 text-accent-200" />
+            <span className="text-xs tracking-widest uppercase text-accent-100/80 font-semibold">Change Photo</span>
             <input 
               type="file" 
               accept="image/*" 
+              multiple
               onChange={handleFileUpload} 
               className="hidden" 
               onClick={(e) => e.stopPropagation()} 
@@ -101,55 +682,135 @@ const App: React.FC = () => {
       </div>
 
       {/* Layer 3: Love Message Overlay (Fades in when clicked) */}
-      <div className={`fixed inset-0 z-50 flex items-center justify-center transition-all duration-[2000ms] ease-out ${showLoveMessage ? 'opacity-100 visible' : 'opacity-0 invisible'}`}>
+      <div
+        ref={messageDialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={theme.strings.messageLabel}
+        tabIndex={-1}
+        className={`fixed inset-0 z-50 flex items-center justify-center outline-none transition-all duration-[2000ms] ease-out ${showLoveMessage ? 'opacity-100 visible' : 'opacity-0 invisible'}`}
+      >
          
          {/* Background Image: Reduced blur so the picture is visible */}
-         <div 
-            className="absolute inset-0 bg-cover bg-center transition-transform duration-[10s] ease-out"
+         <CrossfadeBackground
+            src={shownImage}
+            framing={backgroundFraming}
+            className="transition-transform duration-[10s] ease-out"
             style={{ 
-                backgroundImage: `url('${bgImage}')`,
-                transform: showLoveMessage ? 'scale(1.1)' : 'scale(1.0)',
+                transform: showLoveMessage && !reducedMotion ? 'scale(1.1)' : 'scale(1.0)',
                 // Reduced blur from 20px to 6px so the image is recognizable
                 filter: 'blur(6px) brightness(0.6) saturate(1.2)' 
             }}
          />
 
          {/* Content Card / Blessing Bar */}
-         <div className={`relative z-10 px-12 py-16 md:px-20 md:py-24 max-w-5xl w-[90%] text-center transform transition-all duration-[1500ms] delay-300 ${showLoveMessage ? 'translate-y-0 opacity-100' : 'translate-y-[40px] opacity-0'}`}>
-            
-            {/* Glass Container Background */}
-            <div className="absolute inset-0 rounded-[3rem] border border-white/10 bg-white/5 backdrop-blur-md -z-10 shadow-2xl"></div>
-
-            {/* Decorative Top Element */}
-            <div className="mb-8 flex justify-center">
-              <div className="w-[1px] h-16 bg-gradient-to-b from-transparent via-amber-200/50 to-transparent"></div>
+         <LoveMessageCard message={message} visible={showLoveMessage} />
+
+         <button
+           onClick={(e) => { e.stopPropagation(); closeMessage(); }}
+           className="absolute top-8 right-8 z-20 px-4 py-2 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 backdrop-blur-md text-xs tracking-widest uppercase text-white/60 font-semibold"
+         >
+           Close
+         </button>
+      </div>
+
+      {/* Screen readers hear the message as it opens */}
+      <div className="sr-only" aria-live="polite">
+        {showLoveMessage ? messageText : storyStep?.caption ?? ''}
+      </div>
+
+      {/* Story Controls (Bottom Center), above the message so the end card can step back */}
+      {story.playing && (
+        <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-[60]">
+          <StoryControls steps={storySteps} story={story} onExit={closeMessage} />
+        </div>
+      )}
+
+      {/* Slideshow Controls (Top Right) */}
+      {slideshowActive && (
+        <div
+          inert={showLoveMessage}
+          className={`absolute top-8 right-8 z-20 transition-all duration-500 ${showLoveMessage ? 'opacity-0 -translate-y-10 motion-reduce:translate-y-0 pointer-events-none' : 'opacity-100'}`}
+        >
+          <SlideshowControls slides={slides} slideshow={slideshow} onEdit={() => setShowSlidesPanel(prev => !prev)} />
+        </div>
+      )}
+
+      {slideshowActive && showSlidesPanel && !showLoveMessage && (
+        <SlideshowPanel slides={slides} setSlides={setSlides} slideshow={slideshow} onClose={() => setShowSlidesPanel(false)} />
+      )}
+
+      {showLibrary && !showLoveMessage && (
+        <PhotoLibraryPanel
+          photos={libraryPhotos}
+          currentId={mode === 'image' ? photoId : null}
+          onSelect={handleLibrarySelect}
+          loading={preparingPhoto}
+          onDelete={handleLibraryDelete}
+          onCamera={() => setShowCamera(true)}
+          onLink={handleImageUrl}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {showCamera && (
+        <CameraCapture onCapture={handleCameraCapture} onClose={() => setShowCamera(false)} />
+      )}
+
+      {/* Photo loading and errors (Top Center) */}
+      {(photoError || preparingPhoto || canvasLoading) && !showLoveMessage && (
+        <div className="absolute top-8 left-1/2 -translate-x-1/2 z-[70] w-max max-w-[calc(100%-4rem)] cursor-default" onClick={(e) => e.stopPropagation()}>
+          {photoError ? (
+            <div role="alert" className="flex items-center gap-3 px-5 py-3 rounded-2xl border border-accent-500/30 bg-backdrop-soft/80 backdrop-blur-md shadow-lg text-xs text-accent-100/90">
+              <span>{photoError}</span>
+              <button onClick={() => setPhotoError(null)} aria-label="Dismiss" className="text-white/50 hover:text-white">×</button>
             </div>
-            
-            <div className="flex flex-col items-center justify-center gap-4">
-              <h1 className="font-romantic text-7xl md:text-9xl text-amber-100/95 leading-tight drop-shadow-[0_0_30px_rgba(251,191,36,0.4)]">
-                Love You
-              </h1>
-              <h1 className="font-serif italic text-4xl md:text-6xl text-white/90 tracking-[0.1em] leading-tight drop-shadow-lg">
-                Forever
-              </h1>
+          ) : (
+            <div role="status" className="flex items-center gap-3 px-5 py-3 rounded-full border border-white/10 bg-white/5 backdrop-blur-md shadow-lg">
+              <span className="w-4 h-4 rounded-full border-2 border-accent-200/30 border-t-accent-200 animate-spin motion-reduce:animate-none" />
+              <span className="text-xs tracking-widest uppercase text-accent-100/80 font-semibold">Loading photo</span>
             </div>
+          )}
+        </div>
+      )}
 
-            {/* Decorative Bottom Line & Subtext */}
-            <div className="mt-12 flex flex-col items-center gap-6">
-                <p className="font-serif text-white/70 text-lg md:text-xl italic max-w-2xl leading-relaxed tracking-wide">
-                  "Every moment with you is my favorite gift."
-                </p>
-                
-                <div className="flex items-center gap-4 opacity-70 mt-4">
-                    <span className="h-px w-12 bg-gradient-to-r from-transparent to-amber-200/40"></span>
-                    <span className="font-cinzel text-[10px] tracking-[0.4em] text-amber-200/80 font-semibold uppercase">Always</span>
-                    <span className="h-px w-12 bg-gradient-to-l from-transparent to-amber-200/40"></span>
-                </div>
-            </div>
-            
-         </div>
+      {/* Drop hint while a photo is dragged over the page */}
+      {dragging && (
+        <div className="fixed inset-4 z-[70] flex items-center justify-center rounded-3xl border-2 border-dashed border-accent-300/50 bg-backdrop/70 backdrop-blur-sm pointer-events-none">
+          <span className="text-sm tracking-[0.3em] uppercase text-accent-100/80 font-semibold">Drop a photo</span>
+        </div>
+      )}
 
-      </div>
+      {showRecorder && !showLoveMessage && (
+        <RecorderPanel
+          getCanvas={() => particleCanvasRef.current?.getCanvas() ?? null}
+          onAssemble={() => particleCanvasRef.current?.scatter()}
+          onRecordingChange={setIsRecording}
+          message={message}
+          theme={theme}
+          bgImage={shownImage}
+          onClose={() => setShowRecorder(false)}
+        />
+      )}
+
+      {showFramingEditor && (
+        <FramingEditor
+          src={bgImage}
+          framing={framing}
+          onSave={handleFramingSave}
+          onClose={() => setShowFramingEditor(false)}
+        />
+      )}
+
+      {/* Message Composer (Editor Mode) */}
+      {isComposing && (
+        <MessageComposer
+          message={message}
+          bgImage={bgImage}
+          onSave={setMessage}
+          onClose={() => setIsComposing(false)}
+        />
+      )}
     </div>
   );
 };
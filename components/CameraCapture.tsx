@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { cameraError } from '../utils/imageInput';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+type Facing = 'user' | 'environment';
+
+// Takes a photo with the device camera. The front camera's preview is mirrored like a
+// mirror would be, the photo itself is not.
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const [facing, setFacing] = useState<Facing>('user');
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser can't use the camera here. Camera access needs a secure (https) page.");
+      return;
+    }
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    setReady(false);
+    setError(null);
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: facing }, audio: false })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = media;
+        return video.play().then(() => { if (!cancelled) setReady(true); });
+      })
+      .catch(e => {
+        console.error("Failed to start the camera", e);
+        if (!cancelled) setError(cameraError(e).message);
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facing]);
+
+  const handleCapture = () => {
+    const video = videoRef.current;
+    if (!video || !ready) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    canvas.toBlob(blob => {
+      if (!blob) return;
+      onCapture(new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.92);
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Take a photo"
+      className="fixed inset-0 z-[60] flex flex-col items-center justify-center gap-6 p-6 bg-backdrop/90 backdrop-blur-sm cursor-default"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="relative w-full max-w-2xl aspect-[4/3] rounded-lg border border-white/10 shadow-2xl overflow-hidden bg-black">
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          className={`w-full h-full object-cover ${facing === 'user' ? '-scale-x-100' : ''}`}
+        />
+        {error ? (
+          <p role="alert" className="absolute inset-0 flex items-center justify-center p-8 text-center text-sm text-highlight-100/80">{error}</p>
+        ) : !ready && (
+          <p className="absolute inset-0 flex items-center justify-center text-xs tracking-widest uppercase text-white/50">Starting camera…</p>
+        )}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={onClose}
+          className="px-5 py-3 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs tracking-widest uppercase text-white/70 font-semibold"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => setFacing(prev => (prev === 'user' ? 'environment' : 'user'))}
+          className="px-5 py-3 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs tracking-widest uppercase text-white/70 font-semibold"
+        >
+          Switch Camera
+        </button>
+        <button
+          onClick={handleCapture}
+          disabled={!ready}
+          className="px-5 py-3 rounded-full border border-highlight-400/40 bg-highlight-400/15 hover:bg-highlight-400/25 text-xs tracking-widest uppercase text-highlight-100 font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Take Photo
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -1,99 +1,350 @@
-import React from 'react';
-import { ParticleSettings } from '../types';
+import React, { useRef, useState } from 'react';
+import { InteractionMode, LightProgram, LightSettings, ParticleSettings, SettingsPreset, SnowSettings, View3DSettings } from '../types';
+import { SETTINGS_LIMITS } from '../utils/settings';
+import { THEMES } from '../themes';
+import { BUILT_IN_PRESETS, downloadPreset, loadSavedPresets, parsePresetFile, storeSavedPresets } from '../utils/presets';
 
 interface ControlPanelProps {
   settings: ParticleSettings;
   setSettings: (s: ParticleSettings) => void;
+  interaction: InteractionMode;
+  setInteraction: (mode: InteractionMode) => void;
+  lights: LightSettings;
+  setLights: (lights: LightSettings) => void;
+  snow: SnowSettings;
+  setSnow: (snow: SnowSettings) => void;
+  view3d: View3DSettings;
+  setView3d: (view: View3DSettings) => void;
+  autoQuality: boolean;
+  setAutoQuality: (auto: boolean) => void;
+  showStats: boolean;
+  setShowStats: (show: boolean) => void;
+  themeId: string;
+  setThemeId: (id: string) => void;
 }
 
-const ControlPanel: React.FC<ControlPanelProps> = ({ settings, setSettings }) => {
+interface SliderConfig {
+  label: string;
+  step: number;
+  format: (value: number) => string;
+}
+
+// One slider per field, typed so a new setting can't be added without a control
+const SLIDERS: Record<keyof ParticleSettings, SliderConfig> = {
+  // Density (Gap)
+  gap: { label: 'Density', step: 1, format: v => (v < 4 ? 'High' : v > 6 ? 'Low' : 'Med') },
+  // Particle Size
+  size: { label: 'Size', step: 0.1, format: v => `${v.toFixed(1)}px` },
+  // Breath Intensity (Replaces Force Field)
+  breathIntensity: { label: 'Breath', step: 0.5, format: v => `${v}` },
+  // Flow (Still useful for how fast they return/drift)
+  ease: { label: 'Response', step: 0.01, format: v => `${Math.round(v * 1000)}` },
+  // Velocity damping, higher keeps particles gliding longer
+  friction: { label: 'Glide', step: 0.01, format: v => v.toFixed(2) },
+  // How long the swap between tree and photo takes, 0 is a hard cut
+  morphDuration: { label: 'Morph', step: 0.1, format: v => (v === 0 ? 'Off' : `${v.toFixed(1)}s`) },
+  // Area each finger or the mouse affects
+  pointerRadius: { label: 'Reach', step: 5, format: v => `${v}px` },
+  // Force of repel, attract, swirl and burst
+  pointerStrength: { label: 'Force', step: 1, format: v => `${v}` }
+};
+
+type SnowSlider = 'density' | 'wind' | 'flakeSize';
+
+const SNOW_SLIDERS: Record<SnowSlider, SliderConfig & { min: number; max: number }> = {
+  density: { label: 'Snowfall', min: 0.1, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}%` },
+  // Negative blows to the left
+  wind: { label: 'Wind', min: -3, max: 3, step: 0.1, format: v => (v === 0 ? 'Calm' : `${v > 0 ? '→' : '←'} ${Math.abs(v).toFixed(1)}`) },
+  flakeSize: { label: 'Flakes', min: 1, max: 5, step: 0.1, format: v => `${v.toFixed(1)}px` }
+};
+
+const INTERACTION_MODES: { id: InteractionMode; label: string }[] = [
+  { id: 'repel', label: 'Repel' },
+  { id: 'attract', label: 'Attract' },
+  { id: 'swirl', label: 'Swirl' },
+  { id: 'burst', label: 'Burst' }
+];
+
+const LIGHT_PROGRAMS: { id: LightProgram; label: string }[] = [
+  { id: 'steady', label: 'Steady' },
+  { id: 'twinkle', label: 'Twinkle' },
+  { id: 'chase', label: 'Chase' },
+  { id: 'cycle', label: 'Color Cycle' },
+  { id: 'fade', label: 'Slow Fade' }
+];
+
+const buttonClassName = "px-3 py-1.5 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs text-highlight-100/80 tracking-wide transition-all";
+
+const chipClassName = (active: boolean) =>
+  `px-3 py-1.5 rounded-full border text-xs tracking-wide transition-all ${active ? 'border-highlight-400/60 bg-highlight-400/10 text-highlight-100' : 'border-white/10 bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+const ControlPanel: React.FC<ControlPanelProps> = ({ settings, setSettings, interaction, setInteraction, lights, setLights, snow, setSnow, view3d, setView3d, autoQuality, setAutoQuality, showStats, setShowStats, themeId, setThemeId }) => {
+  const [savedPresets, setSavedPresets] = useState<SettingsPreset[]>(loadSavedPresets);
+  const [presetName, setPresetName] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const updateSetting = (key: keyof ParticleSettings, value: number) => {
     setSettings({ ...settings, [key]: value });
   };
 
+  const updateSavedPresets = (presets: SettingsPreset[]) => {
+    setSavedPresets(presets);
+    storeSavedPresets(presets);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    // Saving under an existing name overwrites it
+    updateSavedPresets([...savedPresets.filter(p => p.name !== name), { name, settings }]);
+    setPresetName('');
+    setStatus(`Saved "${name}"`);
+  };
+
+  const handleDeletePreset = (name: string) => {
+    updateSavedPresets(savedPresets.filter(p => p.name !== name));
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const preset = parsePresetFile(String(reader.result));
+        updateSavedPresets([...savedPresets.filter(p => p.name !== preset.name), preset]);
+        setSettings(preset.settings);
+        setStatus(`Imported "${preset.name}"`);
+      } catch (e) {
+        setStatus(e instanceof Error ? e.message : "Could not import preset");
+      }
+    };
+    reader.onerror = () => setStatus("Could not read file");
+    reader.readAsText(file);
+  };
+
+  const presets = [...BUILT_IN_PRESETS, ...savedPresets];
+
   return (
-    <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 w-[90%] max-w-xl 
-                    bg-slate-900/60 backdrop-blur-xl border border-amber-500/20 rounded-2xl p-6 shadow-2xl 
-                    flex flex-col gap-4 z-50 transition-all duration-300">
-      
+    <div className="fixed bottom-24 left-1/2 transform -translate-x-1/2 w-[90%] max-w-xl
+                    bg-backdrop-soft/60 backdrop-blur-xl border border-highlight-500/20 rounded-2xl p-6 shadow-2xl
+                    flex flex-col gap-4 z-50 transition-all duration-300 cursor-default"
+         onClick={(e) => e.stopPropagation()}>
+
       <div className="text-center mb-2 border-b border-white/5 pb-2">
-        <h3 className="text-amber-100 font-serif tracking-wide text-lg">Settings</h3>
+        <h3 className="text-highlight-100 font-serif tracking-wide text-lg">Settings</h3>
+      </div>
+
+      {/* Occasion: colors, fonts and greeting */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold mr-1">Theme</span>
+        {THEMES.map(theme => (
+          <button
+            key={theme.id}
+            onClick={() => setThemeId(theme.id)}
+            aria-pressed={themeId === theme.id}
+            className={`${chipClassName(themeId === theme.id)} flex items-center gap-2`}
+          >
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: `rgb(${theme.accent[400].r}, ${theme.accent[400].g}, ${theme.accent[400].b})` }} />
+            {theme.name}
+          </button>
+        ))}
+      </div>
+
+      {/* Presets */}
+      <div className="flex flex-wrap gap-2">
+        {presets.map(preset => (
+          <span key={`${preset.builtIn ? 'built-in' : 'saved'}-${preset.name}`} className="flex items-center">
+            <button onClick={() => setSettings(preset.settings)} className={buttonClassName}>
+              {preset.name}
+            </button>
+            {!preset.builtIn && (
+              <button
+                onClick={() => handleDeletePreset(preset.name)}
+                aria-label={`Delete preset ${preset.name}`}
+                className="ml-1 text-xs text-white/40 hover:text-white/80"
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-4">
-        
-        {/* Density (Gap) */}
-        <div className="flex flex-col gap-1">
-          <div className="flex justify-between text-xs text-amber-100/70 uppercase tracking-wider font-semibold">
-            <span>Density</span>
-            <span>{settings.gap < 4 ? 'High' : settings.gap > 6 ? 'Low' : 'Med'}</span>
-          </div>
-          <input
-            type="range"
-            min="2"
-            max="12"
-            step="1"
-            value={settings.gap}
-            onChange={(e) => updateSetting('gap', parseFloat(e.target.value))}
-            className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-amber-400"
-          />
-        </div>
+        {(Object.keys(SLIDERS) as (keyof ParticleSettings)[]).map(key => {
+          const { label, step, format } = SLIDERS[key];
+          const { min, max } = SETTINGS_LIMITS[key];
+          return (
+            <div key={key} className="flex flex-col gap-1">
+              <div className="flex justify-between text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">
+                <span>{label}</span>
+                <span>{format(settings[key])}</span>
+              </div>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={settings[key]}
+                onChange={(e) => updateSetting(key, parseFloat(e.target.value))}
+                className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-highlight-400"
+              />
+            </div>
+          );
+        })}
+      </div>
 
-        {/* Particle Size */}
-        <div className="flex flex-col gap-1">
-          <div className="flex justify-between text-xs text-amber-100/70 uppercase tracking-wider font-semibold">
-            <span>Size</span>
-            <span>{settings.size.toFixed(1)}px</span>
-          </div>
-          <input
-            type="range"
-            min="1"
-            max="6"
-            step="0.1"
-            value={settings.size}
-            onChange={(e) => updateSetting('size', parseFloat(e.target.value))}
-            className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-amber-400"
-          />
+      {/* Pointer interaction */}
+      <div className="flex flex-col gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold mr-1">Touch</span>
+          {INTERACTION_MODES.map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => setInteraction(mode.id)}
+              className={chipClassName(interaction === mode.id)}
+            >
+              {mode.label}
+            </button>
+          ))}
         </div>
+        {interaction === 'burst' && (
+          <p className="text-xs text-highlight-100/50">Taps burst the particles instead of opening the card.</p>
+        )}
+      </div>
 
-        {/* Breath Intensity (Replaces Force Field) */}
-        <div className="flex flex-col gap-1">
-          <div className="flex justify-between text-xs text-amber-100/70 uppercase tracking-wider font-semibold">
-            <span>Breath</span>
-            <span>{settings.breathIntensity}</span>
-          </div>
-          <input
-            type="range"
-            min="0"
-            max="10"
-            step="0.5"
-            value={settings.breathIntensity}
-            onChange={(e) => updateSetting('breathIntensity', parseFloat(e.target.value))}
-            className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-amber-400"
-          />
+      {/* String lights */}
+      <div className="flex flex-col gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold mr-1">Lights</span>
+          {LIGHT_PROGRAMS.map(program => (
+            <button
+              key={program.id}
+              onClick={() => setLights({ ...lights, program: program.id })}
+              className={chipClassName(lights.program === program.id)}
+            >
+              {program.label}
+            </button>
+          ))}
         </div>
+        {lights.program !== 'steady' && (
+          <div className="flex flex-col gap-1 md:w-1/3">
+            <div className="flex justify-between text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">
+              <span>Pace</span>
+              <span>{lights.speed.toFixed(2)}x</span>
+            </div>
+            <input
+              type="range"
+              min="0.25"
+              max="3"
+              step="0.05"
+              value={lights.speed}
+              onChange={(e) => setLights({ ...lights, speed: parseFloat(e.target.value) })}
+              className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-highlight-400"
+            />
+          </div>
+        )}
+      </div>
 
-        {/* Flow (Still useful for how fast they return/drift) */}
-         <div className="flex flex-col gap-1">
-          <div className="flex justify-between text-xs text-amber-100/70 uppercase tracking-wider font-semibold">
-             <span>Response</span>
-            <span>{Math.round(settings.ease * 1000)}</span>
+      {/* Snow */}
+      <div className="flex flex-col gap-3">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-xs text-highlight-100/70 uppercase tracking-wider font-semibold cursor-pointer">
+            <input type="checkbox" checked={snow.enabled} onChange={(e) => setSnow({ ...snow, enabled: e.target.checked })} className="accent-highlight-400" />
+            Snow
+          </label>
+          {snow.enabled && (
+            <label className="flex items-center gap-2 text-xs text-highlight-100/70 uppercase tracking-wider font-semibold cursor-pointer">
+              <input type="checkbox" checked={snow.drift} onChange={(e) => setSnow({ ...snow, drift: e.target.checked })} className="accent-highlight-400" />
+              Drift to pointer
+            </label>
+          )}
+        </div>
+        {snow.enabled && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-4">
+            {(Object.keys(SNOW_SLIDERS) as SnowSlider[]).map(key => {
+              const { label, min, max, step, format } = SNOW_SLIDERS[key];
+              return (
+                <div key={key} className="flex flex-col gap-1">
+                  <div className="flex justify-between text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">
+                    <span>{label}</span>
+                    <span>{format(snow[key])}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={snow[key]}
+                    onChange={(e) => setSnow({ ...snow, [key]: parseFloat(e.target.value) })}
+                    className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-highlight-400"
+                  />
+                </div>
+              );
+            })}
           </div>
-          <input
-            type="range"
-            min="0.01"
-            max="0.2"
-            step="0.01"
-            value={settings.ease}
-            onChange={(e) => updateSetting('ease', parseFloat(e.target.value))}
-            className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-amber-400"
-          />
+        )}
+      </div>
+
+      {/* 3D view */}
+      <div className="flex flex-col gap-1">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-xs text-highlight-100/70 uppercase tracking-wider font-semibold cursor-pointer">
+            <input type="checkbox" checked={view3d.enabled} onChange={(e) => setView3d({ ...view3d, enabled: e.target.checked })} className="accent-highlight-400" />
+            3D view
+          </label>
+          {view3d.enabled && (
+            <label className="flex items-center gap-2 text-xs text-highlight-100/70 uppercase tracking-wider font-semibold cursor-pointer">
+              <input type="checkbox" checked={view3d.autoRotate} onChange={(e) => setView3d({ ...view3d, autoRotate: e.target.checked })} className="accent-highlight-400" />
+              Auto-rotate
+            </label>
+          )}
         </div>
+        {view3d.enabled && <p className="text-xs text-white/40">Drag to orbit, pinch or scroll to zoom</p>}
+      </div>
 
+      {/* Performance */}
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-xs text-highlight-100/70 uppercase tracking-wider font-semibold cursor-pointer">
+          <input type="checkbox" checked={autoQuality} onChange={(e) => setAutoQuality(e.target.checked)} className="accent-highlight-400" />
+          Auto quality
+        </label>
+        <label className="flex items-center gap-2 text-xs text-highlight-100/70 uppercase tracking-wider font-semibold cursor-pointer">
+          <input type="checkbox" checked={showStats} onChange={(e) => setShowStats(e.target.checked)} className="accent-highlight-400" />
+          Show stats
+        </label>
       </div>
+
+      {/* Save / Import / Export */}
+      <div className="flex flex-wrap items-center gap-2 border-t border-white/5 pt-4">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSavePreset(); }}
+          placeholder="Preset name"
+          maxLength={40}
+          className="flex-1 min-w-[8rem] px-3 py-1.5 bg-white/5 border border-white/10 rounded-full text-xs text-white/90 placeholder-white/30 focus:outline-none focus:border-highlight-400/50"
+        />
+        <button onClick={handleSavePreset} disabled={!presetName.trim()} className={`${buttonClassName} disabled:opacity-40`}>
+          Save
+        </button>
+        <button onClick={() => downloadPreset(presetName.trim() || 'My preset', settings)} className={buttonClassName}>
+          Export
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClassName}>
+          Import
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+
+      {status && <p className="text-center text-xs text-highlight-100/60">{status}</p>}
     </div>
   );
 };
 
-export default ControlPanel;
\ No newline at end of file
+export default ControlPanel;
@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { PhotoFraming } from '../types';
+import FramedPhoto from './FramedPhoto';
+
+interface CrossfadeBackgroundProps {
+  src: string;
+  framing: PhotoFraming;
+  className?: string;
+  style?: React.CSSProperties;
+  durationMs?: number;
+}
+
+interface Layer {
+  id: number;
+  src: string;
+  framing: PhotoFraming;
+  visible: boolean;
+}
+
+// A framed background image that fades into the next one when `src` changes.
+// Reframing the same photo redraws it in place.
+const CrossfadeBackground: React.FC<CrossfadeBackgroundProps> = ({ src, framing, className = '', style, durationMs = 1000 }) => {
+  const [layers, setLayers] = useState<Layer[]>([{ id: 0, src, framing, visible: true }]);
+
+  useEffect(() => {
+    setLayers(prev => {
+      const last = prev[prev.length - 1];
+      if (last.src === src) {
+        return last.framing === framing ? prev : [...prev.slice(0, -1), { ...last, framing }];
+      }
+      return [...prev, { id: last.id + 1, src, framing, visible: false }];
+    });
+
+    // Mount hidden first so the opacity change actually transitions
+    const showTimer = setTimeout(() => {
+      setLayers(prev => prev.map((layer, i) => (i === prev.length - 1 ? { ...layer, visible: true } : layer)));
+    }, 20);
+    const cleanupTimer = setTimeout(() => {
+      setLayers(prev => prev.slice(-1));
+    }, durationMs + 50);
+
+    return () => {
+      clearTimeout(showTimer);
+      clearTimeout(cleanupTimer);
+    };
+  }, [src, framing, durationMs]);
+
+  return (
+    <div className={`absolute inset-0 ${className}`} style={style}>
+      {layers.map(layer => (
+        <FramedPhoto
+          key={layer.id}
+          src={layer.src}
+          framing={layer.framing}
+          className="absolute inset-0 transition-opacity ease-in-out"
+          style={{
+            opacity: layer.visible ? 1 : 0,
+            transitionDuration: `${durationMs}ms`
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default CrossfadeBackground;
@@ -0,0 +1,48 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PhotoFraming } from '../types';
+import { drawFramed } from '../utils/framing';
+
+interface FramedPhotoProps {
+  src: string;
+  framing: PhotoFraming;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// A photo drawn with its framing onto a canvas that fills its box, redrawn when the box resizes
+const FramedPhoto: React.FC<FramedPhotoProps> = ({ src, framing, className = '', style }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => { if (!cancelled) setImage(img); };
+    img.onerror = () => console.error("Failed to load image:", src);
+    img.src = src;
+    return () => { cancelled = true; };
+  }, [src]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image) return;
+
+    const draw = () => {
+      // Layout size, unaffected by CSS transforms on the parents
+      canvas.width = canvas.clientWidth;
+      canvas.height = canvas.clientHeight;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      drawFramed(ctx, image, framing, canvas.width, canvas.height);
+    };
+    draw();
+
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [image, framing]);
+
+  return <canvas ref={canvasRef} className={`w-full h-full ${className}`} style={style} />;
+};
+
+export default FramedPhoto;
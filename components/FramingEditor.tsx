@@ -0,0 +1,229 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PhotoCrop, PhotoFit, PhotoFraming } from '../types';
+import { DEFAULT_FRAMING } from '../constants';
+import { MAX_CROP, drawFramed, frameLayout, rotateFraming } from '../utils/framing';
+
+interface FramingEditorProps {
+  src: string;
+  framing: PhotoFraming;
+  onSave: (framing: PhotoFraming) => void;
+  onClose: () => void;
+}
+
+const FITS: { id: PhotoFit; label: string; hint: string }[] = [
+  { id: 'contain', label: 'Fit', hint: 'The whole photo, centered with room around it' },
+  { id: 'cover', label: 'Fill', hint: 'Fills the screen, edges may be cut off' }
+];
+
+const CROP_EDGES: { key: keyof PhotoCrop; label: string }[] = [
+  { key: 'left', label: 'Left' },
+  { key: 'right', label: 'Right' },
+  { key: 'top', label: 'Top' },
+  { key: 'bottom', label: 'Bottom' }
+];
+
+const chipClassName = (active: boolean) =>
+  `flex-1 px-3 py-1.5 rounded-full border text-xs tracking-wide transition-all ${active ? 'border-highlight-400/60 bg-highlight-400/10 text-highlight-100' : 'border-white/10 bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+const sliderClassName = "w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-highlight-400";
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Reframes the current photo. The preview has the screen's proportions and uses the
+// same drawing code as the particles, so what you see is what gets sampled.
+const FramingEditor: React.FC<FramingEditorProps> = ({ src, framing, onSave, onClose }) => {
+  const [draft, setDraft] = useState<PhotoFraming>(framing);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [preview, setPreview] = useState({ width: 0, height: 0 });
+  const areaRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => { if (!cancelled) setImage(img); };
+    img.onerror = () => console.error("Failed to load image:", src);
+    img.src = src;
+    return () => { cancelled = true; };
+  }, [src]);
+
+  // Largest box with the screen's aspect ratio that fits the preview area
+  useEffect(() => {
+    const area = areaRef.current;
+    if (!area) return;
+    const measure = () => {
+      const aspect = window.innerWidth / window.innerHeight;
+      const width = Math.min(area.clientWidth, area.clientHeight * aspect);
+      setPreview({ width: Math.floor(width), height: Math.floor(width / aspect) });
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(area);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image || preview.width === 0) return;
+    canvas.width = preview.width;
+    canvas.height = preview.height;
+    ctx.fillStyle = '#020617';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    const { frame } = drawFramed(ctx, image, draft, canvas.width, canvas.height);
+
+    if (draft.fit === 'contain') {
+      ctx.setLineDash([6, 6]);
+      ctx.strokeStyle = 'rgba(253, 230, 138, 0.5)';
+      ctx.strokeRect(frame.x + 0.5, frame.y + 0.5, frame.width - 1, frame.height - 1);
+    }
+  }, [image, draft, preview]);
+
+  const update = <K extends keyof PhotoFraming>(key: K, value: PhotoFraming[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateCrop = (key: keyof PhotoCrop, value: number) => {
+    setDraft(prev => ({ ...prev, crop: { ...prev.crop, [key]: value } }));
+  };
+
+  // Dragging moves the photo under the frame, which moves the focal point the other way
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !image) return;
+    const { photo } = frameLayout(image.naturalWidth, image.naturalHeight, draft, preview.width, preview.height);
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setDraft(prev => ({
+      ...prev,
+      focusX: clamp01(prev.focusX - dx / photo.width),
+      focusY: clamp01(prev.focusY - dy / photo.height)
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const activeFit = FITS.find(fit => fit.id === draft.fit) ?? FITS[0];
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex flex-col md:flex-row bg-backdrop/90 backdrop-blur-sm cursor-default"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Editor */}
+      <div className="w-full md:w-[340px] shrink-0 p-6 flex flex-col gap-5 overflow-y-auto border-b md:border-b-0 md:border-r border-highlight-500/20 bg-backdrop-soft/60">
+        <div className="border-b border-white/5 pb-2">
+          <h3 className="text-highlight-100 font-serif tracking-wide text-lg">Frame Photo</h3>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Size</span>
+          <div className="flex gap-2">
+            {FITS.map(fit => (
+              <button key={fit.id} onClick={() => update('fit', fit.id)} className={chipClassName(draft.fit === fit.id)}>
+                {fit.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-white/40 mt-1">{activeFit.hint}</p>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <div className="flex justify-between text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">
+            <span>Zoom</span>
+            <span>{draft.zoom.toFixed(2)}x</span>
+          </div>
+          <input
+            type="range"
+            min="1"
+            max="4"
+            step="0.05"
+            value={draft.zoom}
+            onChange={(e) => update('zoom', parseFloat(e.target.value))}
+            className={sliderClassName}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Rotation {draft.rotation}°</span>
+          <button
+            onClick={() => setDraft(rotateFraming)}
+            className="px-3 py-1.5 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs text-white/70 tracking-wide"
+          >
+            Rotate 90°
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Crop</span>
+          {CROP_EDGES.map(edge => (
+            <div key={edge.key} className="flex flex-col gap-1">
+              <div className="flex justify-between text-xs text-white/50">
+                <span>{edge.label}</span>
+                <span>{Math.round(draft.crop[edge.key] * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min="0"
+                max={MAX_CROP}
+                step="0.01"
+                value={draft.crop[edge.key]}
+                onChange={(e) => updateCrop(edge.key, parseFloat(e.target.value))}
+                className={sliderClassName}
+              />
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-white/40">Drag the preview to choose what stays in the middle.</p>
+
+        <div className="mt-auto flex flex-col gap-3 pt-2">
+          <button
+            onClick={() => setDraft(DEFAULT_FRAMING)}
+            className="px-4 py-2 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs tracking-widest uppercase text-white/50 font-semibold"
+          >
+            Reset
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-3 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs tracking-widest uppercase text-white/70 font-semibold"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => { onSave(draft); onClose(); }}
+              className="flex-1 px-4 py-3 rounded-full border border-highlight-400/40 bg-highlight-400/15 hover:bg-highlight-400/25 text-xs tracking-widest uppercase text-highlight-100 font-semibold"
+            >
+              Use Framing
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Preview */}
+      <div ref={areaRef} className="relative flex-1 min-h-[50vh] m-6 flex items-center justify-center">
+        <canvas
+          ref={canvasRef}
+          style={{ width: preview.width, height: preview.height }}
+          className="rounded-lg border border-white/10 shadow-2xl cursor-move touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default FramingEditor;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { LoveMessage, MessageFont } from '../types';
+import { MESSAGE_FONTS } from '../constants';
+
+interface LoveMessageCardProps {
+  message: LoveMessage;
+  visible: boolean;
+}
+
+export const fontClass = (font: MessageFont) =>
+  MESSAGE_FONTS.find(f => f.id === font)?.className ?? 'font-serif';
+
+const LoveMessageCard: React.FC<LoveMessageCardProps> = ({ message, visible }) => {
+  return (
+    <div className={`relative z-10 px-12 py-16 md:px-20 md:py-24 max-w-5xl w-[90%] text-center transform transition-all duration-[1500ms] delay-300 ${visible ? 'translate-y-0 opacity-100' : 'translate-y-[40px] motion-reduce:translate-y-0 opacity-0'}`}>
+
+      {/* Glass Container Background */}
+      <div className="absolute inset-0 rounded-[3rem] border border-white/10 bg-white/5 backdrop-blur-md -z-10 shadow-2xl"></div>
+
+      {/* Decorative Top Element */}
+      <div className="mb-8 flex justify-center">
+        <div className="w-[1px] h-16 bg-gradient-to-b from-transparent via-highlight-200/50 to-transparent"></div>
+      </div>
+
+      <div className="flex flex-col items-center justify-center gap-4">
+        <h1 className={`${fontClass(message.headlineFont)} text-7xl md:text-9xl text-highlight-100/95 leading-tight drop-shadow-[0_0_30px_rgb(var(--highlight-400)/0.4)]`}>
+          {message.headline}
+        </h1>
+        <h1 className={`${fontClass(message.subtitleFont)} italic text-4xl md:text-6xl text-white/90 tracking-[0.1em] leading-tight drop-shadow-lg`}>
+          {message.subtitle}
+        </h1>
+      </div>
+
+      {/* Decorative Bottom Line & Subtext */}
+      <div className="mt-12 flex flex-col items-center gap-6">
+          {message.quote && (
+            <p className="font-display text-white/70 text-lg md:text-xl italic max-w-2xl leading-relaxed tracking-wide">
+              "{message.quote}"
+            </p>
+          )}
+
+          <div className="flex items-center gap-4 opacity-70 mt-4">
+              <span className="h-px w-12 bg-gradient-to-r from-transparent to-highlight-200/40"></span>
+              <span className="font-eyebrow text-[10px] tracking-[0.4em] text-highlight-200/80 font-semibold uppercase">{message.tagline}</span>
+              <span className="h-px w-12 bg-gradient-to-l from-transparent to-highlight-200/40"></span>
+          </div>
+      </div>
+
+    </div>
+  );
+};
+
+export default LoveMessageCard;
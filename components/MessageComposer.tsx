@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { LoveMessage, MessageFont } from '../types';
+import { MESSAGE_FONTS, MESSAGE_TEMPLATES } from '../constants';
+import LoveMessageCard from './LoveMessageCard';
+import { MAX_TEXT_LENGTH } from '../utils/shareLink';
+
+interface MessageComposerProps {
+  message: LoveMessage;
+  bgImage: string;
+  onSave: (message: LoveMessage) => void;
+  onClose: () => void;
+}
+
+type TextField = 'headline' | 'subtitle' | 'quote' | 'tagline';
+
+const TEXT_FIELDS: { key: TextField; label: string; multiline?: boolean }[] = [
+  { key: 'headline', label: 'Headline' },
+  { key: 'subtitle', label: 'Subtitle' },
+  { key: 'quote', label: 'Quote', multiline: true },
+  { key: 'tagline', label: 'Tagline' }
+];
+
+const inputClassName = "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white/90 placeholder-white/30 focus:outline-none focus:border-highlight-400/50";
+
+const FontPicker: React.FC<{ label: string; value: MessageFont; onChange: (font: MessageFont) => void }> = ({ label, value, onChange }) => (
+  <div className="flex flex-col gap-1">
+    <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">{label}</span>
+    <div className="flex gap-2">
+      {MESSAGE_FONTS.map(font => (
+        <button
+          key={font.id}
+          onClick={() => onChange(font.id)}
+          className={`flex-1 px-2 py-2 rounded-lg border text-sm transition-all ${font.className} ${value === font.id ? 'border-highlight-400/60 bg-highlight-400/10 text-highlight-100' : 'border-white/10 bg-white/5 text-white/60 hover:bg-white/10'}`}
+        >
+          {font.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const MessageComposer: React.FC<MessageComposerProps> = ({ message, bgImage, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LoveMessage>(message);
+  const [previewVisible, setPreviewVisible] = useState(false);
+  const [revealKey, setRevealKey] = useState(0);
+
+  // Replaying the reveal: remount the card hidden, then let the CSS transition bring it back
+  const replayReveal = () => {
+    setPreviewVisible(false);
+    setRevealKey(k => k + 1);
+  };
+
+  useEffect(() => {
+    if (previewVisible) return;
+    const timer = setTimeout(() => setPreviewVisible(true), 50);
+    return () => clearTimeout(timer);
+  }, [previewVisible]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const updateField = <K extends keyof LoveMessage>(key: K, value: LoveMessage[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex flex-col md:flex-row bg-backdrop/90 backdrop-blur-sm cursor-default"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Editor */}
+      <div className="w-full md:w-[380px] shrink-0 p-6 flex flex-col gap-5 overflow-y-auto border-b md:border-b-0 md:border-r border-highlight-500/20 bg-backdrop-soft/60">
+        <div className="border-b border-white/5 pb-2">
+          <h3 className="text-highlight-100 font-serif tracking-wide text-lg">Compose Message</h3>
+        </div>
+
+        {/* Templates */}
+        <div className="flex flex-col gap-1">
+          <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Templates</span>
+          <div className="flex flex-wrap gap-2">
+            {MESSAGE_TEMPLATES.map(template => (
+              <button
+                key={template.id}
+                onClick={() => { setDraft(template.message); replayReveal(); }}
+                className="px-3 py-1.5 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs text-white/70 tracking-wide"
+              >
+                {template.name}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {TEXT_FIELDS.map(field => (
+          <label key={field.key} className="flex flex-col gap-1">
+            <span className="flex justify-between text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">
+              {field.label}
+              <span className="text-white/40 normal-case tracking-normal font-normal">{draft[field.key].length}/{MAX_TEXT_LENGTH}</span>
+            </span>
+            {field.multiline ? (
+              <textarea
+                rows={3}
+                maxLength={MAX_TEXT_LENGTH}
+                value={draft[field.key]}
+                onChange={(e) => updateField(field.key, e.target.value)}
+                className={`${inputClassName} resize-none`}
+              />
+            ) : (
+              <input
+                type="text"
+                maxLength={MAX_TEXT_LENGTH}
+                value={draft[field.key]}
+                onChange={(e) => updateField(field.key, e.target.value)}
+                className={inputClassName}
+              />
+            )}
+          </label>
+        ))}
+
+        <FontPicker label="Headline Font" value={draft.headlineFont} onChange={(font) => updateField('headlineFont', font)} />
+        <FontPicker label="Subtitle Font" value={draft.subtitleFont} onChange={(font) => updateField('subtitleFont', font)} />
+
+        <div className="mt-auto flex gap-3 pt-2">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-3 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs tracking-widest uppercase text-white/70 font-semibold"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => { onSave(draft); onClose(); }}
+            className="flex-1 px-4 py-3 rounded-full border border-highlight-400/40 bg-highlight-400/15 hover:bg-highlight-400/25 text-xs tracking-widest uppercase text-highlight-100 font-semibold"
+          >
+            Use Message
+          </button>
+        </div>
+      </div>
+
+      {/* Live Preview */}
+      <div className="relative flex-1 min-h-[50vh] overflow-hidden flex items-center justify-center">
+        <div
+          className="absolute inset-0 bg-cover bg-center"
+          style={{
+              backgroundImage: `url('${bgImage}')`,
+              filter: 'blur(6px) brightness(0.6) saturate(1.2)'
+          }}
+        />
+        <div className="relative w-full flex justify-center scale-[0.6] origin-center">
+          <LoveMessageCard key={revealKey} message={draft} visible={previewVisible} />
+        </div>
+        <button
+          onClick={replayReveal}
+          className="absolute bottom-6 right-6 px-5 py-3 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 backdrop-blur-md text-xs tracking-widest uppercase text-white/80 font-semibold"
+        >
+          Replay Reveal
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MessageComposer;
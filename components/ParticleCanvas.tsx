@@ -1,141 +1,176 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { ParticleSettings } from '../types';
+import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+import { AudioLevels, InteractionMode, LightSettings, ParticlePalette, ParticleSettings, PhotoFraming, PhotoSamplingOptions, SnowSettings, TextSceneOptions, View3DSettings } from '../types';
+import { DEFAULT_FRAMING, DEFAULT_LIGHTS, DEFAULT_PHOTO_SAMPLING, DEFAULT_SEED, DEFAULT_SNOW, DEFAULT_TEXT_SCENE, DEFAULT_VIEW_3D } from '../constants';
+import { ParticleSpec, packSpecs } from '../particles/spec';
+import { PhotoDepth, buildPhotoSpecs } from '../particles/photoScene';
+import { buildTextSpecs } from '../particles/textScene';
+import { DEFAULT_THEME_ID, getTheme } from '../themes';
+import { DEFAULT_SCENE_ID, getSceneGenerator } from '../particles/sceneGenerators';
+import { RendererBackend, TRAIL_COLOR, TrailColor } from '../particles/renderer';
+import { EngineStats, ParticleEngine } from '../particles/engine';
+import { PointerState } from '../particles/simulation';
+import { SnowField } from '../particles/snow';
+import { createEngine } from '../particles/createEngine';
+import { LayoutSize, fitTransform } from '../particles/layout';
+import { QUALITY_TIERS, QualityGovernor, thinSpecs } from '../particles/quality';
+import { FixedStepClock, TICK_RATE } from '../particles/clock';
+import { createRandom } from '../particles/random';
+import { photoRelief, withThickness } from '../particles/depth';
+import { drawFramed, visibleRect } from '../utils/framing';
+import { ImageInputError, loadReadableImage, taintedCanvasError } from '../utils/imageInput';
+import PerformanceHud from './PerformanceHud';
 
 interface ParticleCanvasProps {
   settings: ParticleSettings;
-  variant: 'generative' | 'image';
+  // 'image', 'text', or the id of a registered scene generator (unknown ids draw the tree)
+  variant: string;
+  // Options for the variant's scene generator (e.g. TreeOptions for 'tree'), its defaults when left out
+  sceneOptions?: unknown;
+  // Colors the generated scenes draw with, the default theme's when left out
+  palette?: ParticlePalette;
+  // The fill that fades the previous frame, usually the page background
+  trail?: TrailColor;
   imageSrc?: string;
+  // Used by the 'image' variant
+  sampling?: PhotoSamplingOptions;
+  framing?: PhotoFraming;
+  // Used by the 'text' variant
+  text?: TextSceneOptions;
+  // 'auto' prefers WebGL and falls back to Canvas2D
+  renderer?: RendererBackend | 'auto';
+  // What pointers do to nearby particles
+  interaction?: InteractionMode;
+  // How string lights and ornaments animate
+  lights?: LightSettings;
+  // Falling snow drawn beneath and above the particles
+  snow?: SnowSettings;
+  // Keeps the idle sinusoidal parallax even while a pointer is over the canvas (e.g. while recording)
+  ignorePointer?: boolean;
+  // Stops the animation, e.g. while something opaque covers the canvas
+  paused?: boolean;
+  // Lowers density, glow and trails when frames run slow
+  autoQuality?: boolean;
+  // Frame rate, particle count and quality tier in the corner
+  showStats?: boolean;
+  // Still particles, crossfades instead of morphs, and no snowfall
+  reducedMotion?: boolean;
+  // Text alternative for the animation
+  description?: string;
+  // Everything random in the scene and its animation follows this, the same seed shows the same scene
+  seed?: number;
+  // Depth and an orbiting camera instead of the flat view. Dragging then turns the camera,
+  // pinching or scrolling zooms it.
+  view3d?: View3DSettings;
+  // Depth for the 'image' variant's photo in 3D, brighter is closer. Without one the photo's own brightness is used.
+  depthMap?: string | null;
+  // The 'image' variant's photo is loading
+  onImageLoading?: (loading: boolean) => void;
+  // The photo couldn't be used, the tree is shown instead
+  onImageError?: (error: ImageInputError) => void;
 }
 
-class Particle {
-  x: number;
-  y: number;
-  originX: number;
-  originY: number;
-  
-  // 3D Properties
-  z: number; // Depth (-1 to 1)
-  
-  color: string;
-  baseSize: number;
-  size: number;
-  
-  // Physics properties
-  vx: number;
-  vy: number;
-  
-  // Animation properties
-  randomPhase: number;
-  isOrnament: boolean;
-  
-  constructor(x: number, y: number, color: string, size: number, isOrnament: boolean = false) {
-    this.originX = x;
-    this.originY = y;
-    
-    // Assign a random depth for 3D effect
-    this.z = (Math.random() - 0.5) * 2; 
-
-    // STABILITY FIX:
-    // Previously: window.innerWidth (Full screen explosion)
-    // Now: window.innerWidth * 0.15 (Localized spawn)
-    // Particles spawn much closer to their target. This prevents them from building up
-    // massive velocity as they fly in, stopping them from "overshooting" and jittering.
-    const scatterRange = Math.min(window.innerWidth, window.innerHeight) * 0.15;
-    this.x = x + (Math.random() - 0.5) * scatterRange; 
-    this.y = y + (Math.random() - 0.5) * scatterRange;
-    
-    this.vx = 0;
-    this.vy = 0;
-    
-    this.color = color;
-    this.baseSize = size;
-    this.size = size;
-    this.isOrnament = isOrnament;
-    
-    this.randomPhase = Math.random() * Math.PI * 2;
-  }
-
-  update(settings: ParticleSettings, time: number, mouse: { x: number; y: number; active: boolean }, canvasWidth: number, canvasHeight: number) {
-    // 1. 3D Parallax & Breathing
-    const centerX = canvasWidth / 2;
-    const centerY = canvasHeight / 2;
-    
-    // Smooth 3D parallax
-    const parallaxX = mouse.active ? (mouse.x - centerX) * 0.05 * this.z : Math.sin(time * 0.01) * 10 * this.z;
-    const parallaxY = mouse.active ? (mouse.y - centerY) * 0.05 * this.z : Math.cos(time * 0.01) * 10 * this.z;
-
-    const breathRange = settings.breathIntensity; 
-    const breathX = Math.sin(time * 0.02 + this.randomPhase) * breathRange;
-    const breathY = Math.cos(time * 0.02 + this.randomPhase) * breathRange;
-
-    const targetX = this.originX + parallaxX + breathX;
-    const targetY = this.originY + parallaxY + breathY;
-
-    // 2. Mouse Interaction (Repulsion)
-    let mouseForceX = 0;
-    let mouseForceY = 0;
-
-    if (mouse.active) {
-      const dx = mouse.x - this.x;
-      const dy = mouse.y - this.y;
-      const distance = Math.hypot(dx, dy);
-      const forceDistance = 80; // Slightly tighter interaction radius
-
-      if (distance < forceDistance) {
-        const force = (forceDistance - distance) / forceDistance;
-        const angle = Math.atan2(dy, dx);
-        const repulsionStrength = 20; 
-
-        mouseForceX = -Math.cos(angle) * force * repulsionStrength;
-        mouseForceY = -Math.sin(angle) * force * repulsionStrength;
-      }
-    }
-
-    // 3. Physics (Spring System)
-    // Standard spring physics: Acceleration = Force / Mass
-    this.vx += (targetX - this.x) * settings.ease;
-    this.vy += (targetY - this.y) * settings.ease;
-
-    this.vx += mouseForceX;
-    this.vy += mouseForceY;
-
-    // Friction application (Velocity Damping)
-    this.vx *= settings.friction; 
-    this.vy *= settings.friction;
-
-    this.x += this.vx;
-    this.y += this.vy;
-    
-    // 4. Visual Depth Scaling
-    const depthScale = 1 + this.z * 0.3; 
-    this.size = Math.max(0.1, this.baseSize * depthScale);
-  }
-
-  draw(ctx: CanvasRenderingContext2D) {
-    // 3D Lighting Effect
-    ctx.globalAlpha = Math.max(0.2, Math.min(1, 0.8 + this.z * 0.4));
-    
-    ctx.fillStyle = this.color;
-    ctx.beginPath();
-    ctx.arc(this.x, this.y, this.size, 0, Math.PI * 2);
-    ctx.fill();
-    
-    if (this.isOrnament) {
-       ctx.shadowBlur = 5;
-       ctx.shadowColor = this.color;
-       ctx.fill();
-       ctx.shadowBlur = 0; 
-    }
-    
-    ctx.globalAlpha = 1.0; 
-  }
+const DEFAULT_PALETTE = getTheme(DEFAULT_THEME_ID).particles;
+
+// Backing stores beyond 2x cost fill rate without a visible gain. Particles are laid out in
+// CSS pixels either way, so the particle count never depends on the display.
+const MAX_PIXEL_RATIO = 2;
+const pixelRatio = () => Math.min(window.devicePixelRatio || 1, MAX_PIXEL_RATIO);
+
+// Rotating a phone or opening its keyboard fires a burst of resizes, only the last one counts
+const RESIZE_DELAY = 150;
+
+// In the 3D view, a press that moved further than this (in pixels) turned the camera and isn't a click
+const ORBIT_CLICK_DISTANCE = 6;
+// Zoom per pixel scrolled
+const WHEEL_ZOOM_SPEED = 0.001;
+
+export interface ParticleCanvasHandle {
+  getCanvas(): HTMLCanvasElement | null;
+  // Blows the current formation apart so it assembles again
+  scatter(): void;
+  // Feeds the music's energy into breathing and ornament glow
+  setAudioLevels(levels: AudioLevels): void;
 }
 
-const ParticleCanvas: React.FC<ParticleCanvasProps> = ({ settings, variant, imageSrc }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const particlesRef = useRef<Particle[]>([]); 
-  const animationRef = useRef<number>(0);
-  const mouseRef = useRef({ x: 0, y: 0, active: false });
+const ParticleCanvas = forwardRef<ParticleCanvasHandle, ParticleCanvasProps>(({ settings, variant, sceneOptions, palette = DEFAULT_PALETTE, trail = TRAIL_COLOR, imageSrc, sampling = DEFAULT_PHOTO_SAMPLING, framing = DEFAULT_FRAMING, text = DEFAULT_TEXT_SCENE, renderer = 'auto', interaction = 'repel', lights = DEFAULT_LIGHTS, snow = DEFAULT_SNOW, ignorePointer = false, paused = false, autoQuality = true, showStats = false, reducedMotion = false, description, seed = DEFAULT_SEED, view3d = DEFAULT_VIEW_3D, depthMap = null, onImageLoading, onImageError }, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const engineRef = useRef<ParticleEngine | null>(null);
+  const snowBackRef = useRef<HTMLCanvasElement>(null);
+  const snowFrontRef = useRef<HTMLCanvasElement>(null);
+  const snowFieldRef = useRef<SnowField | null>(null);
+  // Home positions of the current formation, the surface snow settles on, and the size they were laid out for
+  const homesRef = useRef<ParticleSpec[]>([]);
+  const layoutRef = useRef<LayoutSize>({ width: window.innerWidth, height: window.innerHeight });
+  // The canvas may live in a worker, so its size is tracked here. Replaced, never mutated,
+  // so a formation being built keeps the size it started with.
+  const sizeRef = useRef<LayoutSize>({ width: window.innerWidth, height: window.innerHeight });
+  // Every touch, pen or mouse currently over the canvas, by pointerId
+  const pointersRef = useRef(new Map<number, PointerState>());
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const snowRef = useRef(snow);
+  snowRef.current = snow;
+  const seedRef = useRef(seed);
+  seedRef.current = seed;
+  const view3dRef = useRef(view3d);
+  view3dRef.current = view3d;
+  const ignorePointerRef = useRef(ignorePointer);
+  ignorePointerRef.current = ignorePointer;
+  const interactionRef = useRef(interaction);
+  interactionRef.current = interaction;
+  const autoQualityRef = useRef(autoQuality);
+  autoQualityRef.current = autoQuality;
+  const showStatsRef = useRef(showStats);
+  showStatsRef.current = showStats;
+  const onImageLoadingRef = useRef(onImageLoading);
+  onImageLoadingRef.current = onImageLoading;
+  const onImageErrorRef = useRef(onImageError);
+  onImageErrorRef.current = onImageError;
+
+  const governorRef = useRef(new QualityGovernor());
+  const [tier, setTier] = useState(0);
+  const [stats, setStats] = useState<EngineStats | null>(null);
+  const quality = QUALITY_TIERS[tier];
+  // Density is what the governor trades first
+  const gap = settings.gap * quality.gapScale;
+
+  // Runs only while someone can see it
+  const [pageVisible, setPageVisible] = useState(!document.hidden);
+  const [onScreen, setOnScreen] = useState(true);
+  const running = !paused && pageVisible && onScreen;
+  const runningRef = useRef(running);
+  runningRef.current = running;
+
+  useImperativeHandle(ref, () => ({
+    getCanvas: () => canvasRef.current,
+    scatter: () => {
+      const { width, height } = sizeRef.current;
+      engineRef.current?.scatter(Math.min(width, height) * 0.6);
+    },
+    setAudioLevels: (levels) => engineRef.current?.setAudioLevels(levels)
+  }), []);
+
+  // A canvas is bound to its first context type (and to a worker once transferred),
+  // so falling back means a fresh canvas element
+  const [backend, setBackend] = useState<RendererBackend | 'auto'>(renderer);
+  const [offThread, setOffThread] = useState(true);
+
+  useEffect(() => {
+    setBackend(renderer);
+  }, [renderer]);
+
+  // The homes where the engine shows them, refitted if the canvas was resized since they were laid out.
+  // The 3D view moves them around, so snow has nothing to settle on there.
+  const fittedHomes = () => {
+    if (view3dRef.current.enabled) return [];
+    const { scale, offsetX, offsetY } = fitTransform(layoutRef.current, sizeRef.current);
+    return homesRef.current.map(home => ({ ...home, x: home.x * scale + offsetX, y: home.y * scale + offsetY, size: home.size * scale }));
+  };
+
+  const sendPointers = () => {
+    engineRef.current?.setPointers(ignorePointerRef.current ? [] : [...pointersRef.current.values()]);
+  };
   
   const [activeImageSrc, setActiveImageSrc] = useState(imageSrc || "tree.jpg");
 
@@ -143,227 +178,411 @@ const ParticleCanvas: React.FC<ParticleCanvasProps> = ({ settings, variant, imag
     if (imageSrc) setActiveImageSrc(imageSrc);
   }, [imageSrc]);
 
-  // Mouse Handlers
+  // Engine Setup: the canvas is created here rather than rendered, because transferring it
+  // to a worker can only happen once and StrictMode mounts effects twice
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const handleMouseMove = (e: MouseEvent) => {
-      const rect = canvas.getBoundingClientRect();
-      mouseRef.current.x = e.clientX - rect.left;
-      mouseRef.current.y = e.clientY - rect.top;
-      mouseRef.current.active = true;
+    const container = containerRef.current;
+    if (!container) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.className = "absolute top-0 left-0 w-full h-full";
+    // Under both snow layers
+    container.insertBefore(canvas, snowBackRef.current);
+    canvasRef.current = canvas;
+
+    sizeRef.current = { width: window.innerWidth, height: window.innerHeight };
+    const engine = createEngine(canvas, { backend, offThread, settings: settingsRef.current, ...sizeRef.current, pixelRatio: pixelRatio(), seed: seedRef.current });
+    engineRef.current = engine;
+    sendPointers();
+
+    const governor = governorRef.current;
+    engine.onStats = (next) => {
+      if (autoQualityRef.current && governor.update(next.fps)) setTier(governor.tier);
+      if (showStatsRef.current) setStats(next);
     };
 
-    const handleTouchMove = (e: TouchEvent) => {
-        e.preventDefault(); 
-        const rect = canvas.getBoundingClientRect();
-        if (e.touches[0]) {
-            mouseRef.current.x = e.touches[0].clientX - rect.left;
-            mouseRef.current.y = e.touches[0].clientY - rect.top;
-            mouseRef.current.active = true;
+    let disposed = false;
+    engine.ready.catch(e => {
+      if (disposed) return;
+      console.warn("Particle engine failed, falling back", e);
+      // Worker first, then the main thread, then Canvas2D on the main thread
+      if (offThread) setOffThread(false);
+      else if (backend !== 'canvas2d') setBackend('canvas2d');
+    });
+
+    return () => {
+      disposed = true;
+      engine.dispose();
+      canvas.remove();
+      engineRef.current = null;
+      canvasRef.current = null;
+    };
+  }, [backend, offThread]);
+
+  useEffect(() => {
+    engineRef.current?.setSettings(settings);
+  }, [settings, backend, offThread]);
+
+  useEffect(() => {
+    engineRef.current?.setInteraction(interaction);
+  }, [interaction, backend, offThread]);
+
+  useEffect(sendPointers, [ignorePointer]);
+
+  useEffect(() => {
+    engineRef.current?.setQuality({ glow: quality.glow, trails: quality.trails });
+  }, [quality, backend, offThread]);
+
+  useEffect(() => {
+    if (autoQuality) return;
+    governorRef.current.reset();
+    setTier(0);
+  }, [autoQuality]);
+
+  useEffect(() => {
+    engineRef.current?.setPaused(!running);
+  }, [running, backend, offThread]);
+
+  useEffect(() => {
+    engineRef.current?.setReducedMotion(reducedMotion);
+  }, [reducedMotion, backend, offThread]);
+
+  useEffect(() => {
+    engineRef.current?.setLights(lights);
+  }, [lights, backend, offThread]);
+
+  useEffect(() => {
+    engineRef.current?.setTrailColor(trail);
+  }, [trail, backend, offThread]);
+
+  useEffect(() => {
+    engineRef.current?.setView(view3d);
+  }, [view3d, backend, offThread]);
+
+  useEffect(() => {
+    const handleVisibility = () => setPageVisible(!document.hidden);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    const container = containerRef.current;
+    const observer = new IntersectionObserver(([entry]) => setOnScreen(entry.isIntersecting));
+    if (container) observer.observe(container);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      observer.disconnect();
+    };
+  }, []);
+
+  // Snow: a light main-thread loop of its own, only while enabled. Falling snow is all motion,
+  // so reduced motion turns it off.
+  const snowing = snow.enabled && !reducedMotion;
+  useEffect(() => {
+    const back = snowBackRef.current?.getContext('2d');
+    const front = snowFrontRef.current?.getContext('2d');
+    if (!snowing || !back || !front) return;
+
+    const field = new SnowField(snowRef.current, sizeRef.current.width, sizeRef.current.height, createRandom(seedRef.current));
+    const clock = new FixedStepClock();
+    field.setSurface(fittedHomes());
+    snowFieldRef.current = field;
+
+    let frameId = 0;
+    const animate = () => {
+      frameId = requestAnimationFrame(animate);
+      if (!runningRef.current) {
+        clock.reset();
+        return;
+      }
+      const { width, height } = sizeRef.current;
+      const ratio = pixelRatio();
+      [back, front].forEach(ctx => {
+        const { canvas } = ctx;
+        if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+          canvas.width = Math.round(width * ratio);
+          canvas.height = Math.round(height * ratio);
+          ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+          field.resize(width, height);
         }
+      });
+      const pointers = ignorePointerRef.current ? [] : [...pointersRef.current.values()];
+      const ticks = clock.advance(performance.now());
+      for (let i = 0; i < ticks; i++) field.step(pointers, settingsRef.current.pointerRadius);
+      field.draw(back, front);
+    };
+    frameId = requestAnimationFrame(animate);
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      snowFieldRef.current = null;
+      back.clearRect(0, 0, back.canvas.width, back.canvas.height);
+      front.clearRect(0, 0, front.canvas.width, front.canvas.height);
     };
+  }, [snowing]);
+
+  useEffect(() => {
+    snowFieldRef.current?.setSettings(snow);
+  }, [snow]);
 
-    const handleEnd = () => {
-      mouseRef.current.active = false;
+  // Resizes keep the formation: the engine refits it, nothing is rebuilt or scattered
+  useEffect(() => {
+    let timer = 0;
+    const handleResize = () => {
+      clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        const size = { width: window.innerWidth, height: window.innerHeight };
+        sizeRef.current = size;
+        engineRef.current?.resize(size.width, size.height, pixelRatio());
+        const field = snowFieldRef.current;
+        field?.resize(size.width, size.height);
+        field?.setSurface(fittedHomes());
+      }, RESIZE_DELAY);
     };
 
-    window.addEventListener('mousemove', handleMouseMove);
-    canvas.addEventListener('touchmove', handleTouchMove, { passive: false });
-    window.addEventListener('mouseout', handleEnd); 
-    window.addEventListener('touchend', handleEnd);
-    
+    window.addEventListener('resize', handleResize);
     return () => {
-      window.removeEventListener('mousemove', handleMouseMove);
-      canvas.removeEventListener('touchmove', handleTouchMove);
-      window.removeEventListener('mouseout', handleEnd);
-      window.removeEventListener('touchend', handleEnd);
+      window.removeEventListener('resize', handleResize);
+      clearTimeout(timer);
     };
   }, []);
 
-  // Initialization Logic
+  // Pointer Handlers: the mouse counts while hovering, touches and pens while pressed
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) return;
+    const container = containerRef.current;
+    if (!container) return;
+    const pointers = pointersRef.current;
+    // 3D view: pointers pressed on the canvas steer the camera, one orbits and two pinch-zoom
+    const pressed = new Map<number, PointerState>();
+    let dragged = 0;
+    const steering = () => view3dRef.current.enabled && !ignorePointerRef.current;
+
+    const toLocal = (e: PointerEvent): PointerState => {
+      const rect = container.getBoundingClientRect();
+      return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
 
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
-
-    // --- GENERATIVE MODE (Christmas Tree) ---
-    const initGenerativeTree = () => {
-      const particles: Particle[] = [];
-      const cx = canvas.width / 2;
-      const cy = canvas.height * 0.85; 
-      const treeHeight = Math.min(canvas.height * 0.7, 600);
-      const maxRadius = Math.min(canvas.width * 0.35, 250);
-
-      const particleCount = 2000; 
-      for (let i = 0; i < particleCount; i++) {
-        const hPercent = 1 - Math.pow(Math.random(), 0.7); 
-        const y = cy - hPercent * treeHeight;
-        const levelFactor = 1 - hPercent;
-        const branchWave = 1 + 0.15 * Math.sin(hPercent * 25);
-        const radiusAtHeight = maxRadius * levelFactor * branchWave;
-        const xOffset = (Math.random() - 0.5) * 2 * radiusAtHeight;
-        
-        if (Math.abs(xOffset) < radiusAtHeight) {
-           const x = cx + xOffset;
-           const r = 20 + Math.random() * 40;
-           const g = 100 + Math.random() * 100;
-           const b = 40 + Math.random() * 40;
-           const alpha = 0.8 + Math.random() * 0.2; 
-           const color = `rgba(${Math.floor(r)}, ${Math.floor(g)}, ${Math.floor(b)}, ${alpha})`;
-           particles.push(new Particle(x, y, color, settings.size, false));
-        }
+    const handleDown = (e: PointerEvent) => {
+      const point = toLocal(e);
+      pointers.set(e.pointerId, point);
+      sendPointers();
+      if (steering()) {
+        if (pressed.size === 0) dragged = 0;
+        pressed.set(e.pointerId, point);
+        return;
       }
-
-      const ornamentCount = 100;
-      for (let i = 0; i < ornamentCount; i++) {
-         const hPercent = Math.random() * 0.9;
-         const y = cy - hPercent * treeHeight;
-         const levelFactor = 1 - hPercent;
-         const radiusAtHeight = maxRadius * levelFactor;
-         const xOffset = (Math.random() - 0.5) * 2 * radiusAtHeight * 0.9;
-         const x = cx + xOffset;
-         const isGold = Math.random() > 0.6;
-         const color = isGold ? `rgba(255, 215, 0, 1)` : `rgba(220, 40, 40, 1)`;
-         particles.push(new Particle(x, y, color, settings.size * 1.5, true));
+      if (interactionRef.current === 'burst' && !ignorePointerRef.current) {
+        engineRef.current?.burst(point.x, point.y);
       }
+    };
 
-      const starCount = 60;
-      const topY = cy - treeHeight;
-      for (let i = 0; i < starCount; i++) {
-          const angle = Math.random() * Math.PI * 2;
-          const dist = Math.random() * 15;
-          const x = cx + Math.cos(angle) * dist;
-          const y = topY + Math.sin(angle) * dist;
-          particles.push(new Particle(x, y, 'rgba(255, 255, 200, 1)', settings.size * 1.2, true));
+    const handleMove = (e: PointerEvent) => {
+      // Touches that started on the controls don't steer the particles
+      if (e.pointerType !== 'mouse' && !pointers.has(e.pointerId)) return;
+      const point = toLocal(e);
+      pointers.set(e.pointerId, point);
+      sendPointers();
+
+      const previous = pressed.get(e.pointerId);
+      if (!previous || !steering()) return;
+      const other = [...pressed.entries()].find(([id]) => id !== e.pointerId)?.[1];
+      if (other) {
+        // Fingers spreading apart zoom in
+        const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+        const after = Math.hypot(point.x - other.x, point.y - other.y);
+        if (before > 0) engineRef.current?.zoom(after / before);
+      } else {
+        engineRef.current?.orbit(point.x - previous.x, point.y - previous.y);
       }
-      
-      particlesRef.current = particles;
+      dragged += Math.hypot(point.x - previous.x, point.y - previous.y);
+      pressed.set(e.pointerId, point);
     };
 
-    // --- IMAGE MODE ---
-    const initFromImage = () => {
-       const img = new Image();
-       if (activeImageSrc.startsWith('http')) {
-           img.crossOrigin = "Anonymous";
-       }
-       img.src = activeImageSrc;
-
-       img.onload = () => {
-          const scale = Math.min(canvas.width / img.width, canvas.height / img.height) * 0.8; 
-          const w = img.width * scale;
-          const h = img.height * scale;
-          const offsetX = (canvas.width - w) / 2;
-          const offsetY = (canvas.height - h) / 2;
-
-          ctx.clearRect(0, 0, canvas.width, canvas.height);
-          ctx.drawImage(img, offsetX, offsetY, w, h);
-          
-          try {
-            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-            ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-            const particles: Particle[] = [];
-            const gap = Math.max(3, Math.floor(settings.gap));
-
-            for (let y = 0; y < canvas.height; y += gap) {
-              for (let x = 0; x < canvas.width; x += gap) {
-                const index = (y * canvas.width + x) * 4;
-                const alpha = imageData.data[index + 3];
-
-                if (alpha > 20) { 
-                  const r = imageData.data[index];
-                  const g = imageData.data[index + 1];
-                  const b = imageData.data[index + 2];
-                  
-                  const brightness = (r + g + b) / 3;
-                  const isShiny = brightness > 230; 
-                  
-                  const color = `rgb(${r}, ${g}, ${b})`;
-                  
-                  particles.push(new Particle(x, y, color, settings.size, isShiny));
-                }
-              }
-            }
-            particlesRef.current = particles;
-          } catch (e) {
-            console.error("Error reading image data", e);
-          }
-       };
-
-       img.onerror = () => {
-           console.error("Failed to load image:", activeImageSrc);
-           // Fallback logic removed as requested
-       };
+    const handleUp = (e: PointerEvent) => {
+      pressed.delete(e.pointerId);
+      if (e.pointerType === 'mouse') return;
+      pointers.delete(e.pointerId);
+      sendPointers();
     };
 
-    // --- EXECUTE ---
-    particlesRef.current = [];
-    const timer = setTimeout(() => {
-        if (variant === 'generative') {
-            initGenerativeTree();
-        } else {
-            initFromImage();
-        }
-    }, 10);
+    // The mouse leaving the window
+    const handleOut = (e: PointerEvent) => {
+      if (e.relatedTarget !== null) return;
+      pressed.delete(e.pointerId);
+      pointers.delete(e.pointerId);
+      sendPointers();
+    };
 
-    const handleResize = () => {
-        canvas.width = window.innerWidth;
-        canvas.height = window.innerHeight;
-        if (variant === 'generative') initGenerativeTree();
-        else initFromImage();
+    // A drag that turned the camera shouldn't also open the message
+    const handleClick = (e: MouseEvent) => {
+      if (view3dRef.current.enabled && dragged > ORBIT_CLICK_DISTANCE) e.stopPropagation();
     };
 
-    window.addEventListener('resize', handleResize);
-    return () => {
-        window.removeEventListener('resize', handleResize);
-        clearTimeout(timer);
+    const handleWheel = (e: WheelEvent) => {
+      if (!steering()) return;
+      e.preventDefault();
+      engineRef.current?.zoom(Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED));
     };
 
-  }, [variant, activeImageSrc, settings.gap]); 
+    container.addEventListener('pointerdown', handleDown);
+    container.addEventListener('click', handleClick, true);
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleUp);
+    window.addEventListener('pointerout', handleOut);
+
+    return () => {
+      container.removeEventListener('pointerdown', handleDown);
+      container.removeEventListener('click', handleClick, true);
+      container.removeEventListener('wheel', handleWheel);
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+      window.removeEventListener('pointerout', handleOut);
+    };
+  }, []);
 
-  // Animation Loop
+  // Initialization Logic
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    // Images are rasterized on a detached canvas, the visible one belongs to the engine
+    const sampler = document.createElement('canvas');
+    const ctx = sampler.getContext('2d', { willReadFrequently: true });
     if (!ctx) return;
 
-    let time = 0;
+    const size = sizeRef.current;
+
+    // Image and text scenes finish asynchronously, drop their results once this effect is gone
+    let cancelled = false;
+    // Rebuilt with every scene, so rebuilding one draws it the same way again
+    const random = createRandom(seed);
+    const solid = view3d.enabled;
+
+    // Morphs the current particles into the new formation, or spawns them on first load
+    const applySpecs = (specs: ParticleSpec[]) => {
+      if (cancelled) return;
+      const frames = Math.round(settings.morphDuration * TICK_RATE);
+      homesRef.current = specs;
+      layoutRef.current = size;
+      snowFieldRef.current?.setSurface(fittedHomes());
+      engine.setSpecs(packSpecs(specs), frames, size);
+    };
+
+    // --- GENERATIVE MODE (any registered scene) ---
+    const initGenerative = (id = variant) => {
+      const generator = getSceneGenerator(id);
+      const options = (id === variant ? sceneOptions : undefined) ?? generator.defaultOptions;
+      let specs: ParticleSpec[];
+      if (!solid) specs = generator.generate(size, settings, options, palette, random);
+      else if (generator.generateSolid) specs = generator.generateSolid(size, settings, options, palette, random);
+      else specs = withThickness(generator.generate(size, settings, options, palette, random), size, random);
+      applySpecs(thinSpecs(specs, quality, seed));
+    };
 
-    const animate = () => {
-      ctx.fillStyle = 'rgba(2, 6, 23, 0.4)'; 
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      if (particlesRef.current.length > 0) {
-          particlesRef.current.forEach(particle => {
-            particle.update(settings, time, mouseRef.current, canvas.width, canvas.height);
-            particle.draw(ctx);
-          });
+    // --- IMAGE MODE ---
+    let loading = false;
+    const setLoading = (next: boolean) => {
+      if (loading === next) return;
+      loading = next;
+      onImageLoadingRef.current?.(next);
+    };
+
+    // A photo that can't be used shows the tree rather than an empty screen
+    const fallBack = (error: ImageInputError) => {
+      if (cancelled) return;
+      console.error("Error loading image", activeImageSrc, error);
+      setLoading(false);
+      onImageErrorRef.current?.(error);
+      initGenerative(DEFAULT_SCENE_ID);
+    };
+
+    // An unusable depth map isn't worth losing the photo over, its brightness stands in
+    const loadDepthMap = () => {
+      if (!solid || !depthMap) return Promise.resolve(null);
+      return loadReadableImage(depthMap).catch(e => {
+        console.warn("Depth map couldn't be loaded, using the photo's brightness", e);
+        return null;
+      });
+    };
+
+    // The depth map is drawn with the photo's framing so its pixels line up with the photo's
+    const readDepth = (map: HTMLImageElement | null): PhotoDepth | null => {
+      if (!solid) return null;
+      const depth: PhotoDepth = { relief: photoRelief(size), map: null };
+      if (!map) return depth;
+      ctx.clearRect(0, 0, size.width, size.height);
+      drawFramed(ctx, map, framing, size.width, size.height);
+      try {
+        depth.map = ctx.getImageData(0, 0, size.width, size.height);
+      } catch {
+        console.warn("Depth map can't be read, using the photo's brightness");
       }
-      
-      time++;
-      animationRef.current = requestAnimationFrame(animate);
+      ctx.clearRect(0, 0, size.width, size.height);
+      return depth;
+    };
+
+    const initFromImage = () => {
+       setLoading(true);
+       Promise.all([loadReadableImage(activeImageSrc), loadDepthMap()])
+         .then(([img, map]) => {
+           if (cancelled) return;
+           sampler.width = size.width;
+           sampler.height = size.height;
+           ctx.clearRect(0, 0, size.width, size.height);
+           const layout = drawFramed(ctx, img, framing, size.width, size.height);
+
+           let imageData: ImageData;
+           try {
+             imageData = ctx.getImageData(0, 0, size.width, size.height);
+           } catch {
+             fallBack(taintedCanvasError());
+             return;
+           }
+           ctx.clearRect(0, 0, size.width, size.height);
+
+           const bounds = visibleRect(layout);
+           applySpecs(buildPhotoSpecs(imageData, bounds, sampling, gap, settings.size, random, readDepth(map)));
+           setLoading(false);
+         })
+         .catch(e => fallBack(e instanceof ImageInputError ? e : new ImageInputError('not-image', "That photo couldn't be opened.")));
+    };
+
+    // --- TEXT MODE ---
+    const initFromText = () => {
+       buildTextSpecs(text, ctx, size.width, size.height, gap, settings.size, random)
+         .then(specs => applySpecs(solid ? withThickness(specs, size, random) : specs))
+         .catch(e => console.error("Error building text particles", e));
     };
-    
-    animate();
+
+    const initScene = () => {
+        if (variant === 'image') initFromImage();
+        else if (variant === 'text') initFromText();
+        else initGenerative();
+    };
+
+    // --- EXECUTE ---
+    // Existing particles are kept so they can morph into the new formation
+    const timer = setTimeout(initScene, 10);
 
     return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+        clearTimeout(timer);
+        cancelled = true;
+        setLoading(false);
     };
-  }, [settings.friction, settings.ease, settings.size, settings.breathIntensity]);
 
+  }, [variant, sceneOptions, palette, activeImageSrc, sampling.style, sampling.removeBackground, sampling.backgroundTolerance, sampling.festivePalette, framing, text.text, text.font, text.coloring, text.paletteId, gap, settings.size, seed, view3d.enabled, depthMap, backend, offThread]); 
+
+  // touch-none keeps the browser from scrolling or zooming while fingers play with the particles
   return (
-    <canvas
-      ref={canvasRef}
-      className="absolute top-0 left-0 w-full h-full"
-    />
+    <div ref={containerRef} role="img" aria-label={description} className="absolute top-0 left-0 w-full h-full touch-none">
+      {/* The particle canvas is inserted here. Its trails make it opaque, so the back snow layer
+          sits on top with screen blending: flakes vanish against bright particles and read as behind them. */}
+      <canvas ref={snowBackRef} className="absolute top-0 left-0 w-full h-full pointer-events-none mix-blend-screen" />
+      <canvas ref={snowFrontRef} className="absolute top-0 left-0 w-full h-full pointer-events-none" />
+      {showStats && <PerformanceHud stats={stats} tier={quality} auto={autoQuality} paused={!running} />}
+    </div>
   );
-};
+});
 
 export default ParticleCanvas;
\ No newline at end of file
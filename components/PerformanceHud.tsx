@@ -0,0 +1,21 @@
+import React from 'react';
+import { EngineStats } from '../particles/engine';
+import { QualityTier } from '../particles/quality';
+
+interface PerformanceHudProps {
+  stats: EngineStats | null;
+  tier: QualityTier;
+  auto: boolean;
+  paused: boolean;
+}
+
+// Debug readout in the corner: frame rate, particle count and quality tier
+const PerformanceHud: React.FC<PerformanceHudProps> = ({ stats, tier, auto, paused }) => (
+  <div className="absolute top-2 left-2 z-30 px-2 py-1 rounded bg-black/60 font-mono text-[10px] leading-4 text-accent-200/90 pointer-events-none select-none">
+    <div>{paused ? 'paused' : `${stats ? Math.round(stats.fps) : '--'} fps`}</div>
+    <div>{stats ? stats.particles.toLocaleString() : '--'} particles</div>
+    <div>{tier.name}{auto ? ' (auto)' : ''}</div>
+  </div>
+);
+
+export default PerformanceHud;
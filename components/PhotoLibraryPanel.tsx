@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { LibraryPhoto } from '../utils/photoLibrary';
+
+interface PhotoLibraryPanelProps {
+  photos: LibraryPhoto[];
+  currentId: string | null;
+  loading: boolean;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onCamera: () => void;
+  // Resolves to whether the link worked, so a failed one stays in the field to fix
+  onLink: (url: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+// Every photo uploaded on this device, to show again or remove, and the other ways to add one
+const PhotoLibraryPanel: React.FC<PhotoLibraryPanelProps> = ({ photos, currentId, loading, onSelect, onDelete, onCamera, onLink, onClose }) => {
+  const [link, setLink] = useState('');
+
+  const handleLinkSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!link.trim() || loading) return;
+    if (await onLink(link)) setLink('');
+  };
+
+  return (
+    <div className="fixed top-24 right-8 w-[calc(100%-4rem)] max-w-sm max-h-[60vh]
+                    bg-backdrop-soft/60 backdrop-blur-xl border border-highlight-500/20 rounded-2xl p-6 shadow-2xl
+                    flex flex-col gap-4 z-50 cursor-default"
+         onClick={(e) => e.stopPropagation()}>
+
+      <div className="flex justify-between items-center border-b border-white/5 pb-2">
+        <h3 className="text-highlight-100 font-serif tracking-wide text-lg">Photos</h3>
+        <button onClick={onClose} className="text-xs uppercase tracking-widest text-white/50 hover:text-white/80">Done</button>
+      </div>
+
+      <form onSubmit={handleLinkSubmit} className="flex gap-2">
+        <input
+          type="url"
+          value={link}
+          onChange={(e) => setLink(e.target.value)}
+          placeholder="Paste an image link"
+          aria-label="Image link"
+          className="flex-1 min-w-0 px-3 py-1.5 rounded-full border border-white/10 bg-white/5 text-xs text-white/80 placeholder:text-white/30 focus:outline-none focus:border-highlight-400/50"
+        />
+        <button
+          type="submit"
+          disabled={loading || !link.trim()}
+          className="px-3 py-1.5 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs tracking-wide text-white/70 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Load
+        </button>
+        <button
+          type="button"
+          onClick={onCamera}
+          className="px-3 py-1.5 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs tracking-wide text-white/70"
+        >
+          Camera
+        </button>
+      </form>
+
+      {photos.length === 0 ? (
+        <p className="text-xs text-highlight-100/50">
+          Photos you upload, drop or paste here are kept on this device only.
+        </p>
+      ) : (
+        <ul className="grid grid-cols-3 gap-3 overflow-y-auto pr-1">
+          {photos.map((photo, i) => (
+            <li key={photo.id} className="relative">
+              <button
+                onClick={() => onSelect(photo.id)}
+                aria-label={`Show photo ${i + 1}`}
+                aria-pressed={photo.id === currentId}
+                className={`block w-full aspect-square rounded-lg overflow-hidden border ${photo.id === currentId ? 'border-highlight-400/60' : 'border-white/10 hover:border-white/30'}`}
+              >
+                <img src={photo.thumbnail} alt="" className="w-full h-full object-cover" />
+              </button>
+              <button
+                onClick={() => onDelete(photo.id)}
+                aria-label={`Delete photo ${i + 1}`}
+                className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-backdrop/80 border border-white/20 text-xs leading-none text-white/60 hover:text-white"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PhotoLibraryPanel;
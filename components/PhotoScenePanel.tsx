@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PhotoSamplingOptions, SamplingStyle } from '../types';
+import { FESTIVE_QUANTIZE_COLORS } from '../constants';
+
+interface PhotoScenePanelProps {
+  options: PhotoSamplingOptions;
+  setOptions: (options: PhotoSamplingOptions) => void;
+  // Opens the framing editor for the current photo
+  onFrame: () => void;
+  // The 3D view is on, so the photo can take a depth map
+  view3d: boolean;
+  depthMap: string | null;
+  onDepthMapFile: (file: File) => void;
+  onClearDepthMap: () => void;
+  onClose: () => void;
+}
+
+const SAMPLING_STYLES: { id: SamplingStyle; label: string; hint: string }[] = [
+  { id: 'grid', label: 'Grid', hint: 'Every pixel on an even grid' },
+  { id: 'edges', label: 'Edges', hint: 'Outlines only, good for line art and portraits' },
+  { id: 'stochastic', label: 'Scatter', hint: 'Random particles, densest in the highlights' },
+  { id: 'dither', label: 'Dither', hint: 'Light and shadow as particle density' }
+];
+
+// Re-sampling the photo is expensive, so dragging the slider only updates the scene after a pause
+const SLIDER_DELAY = 300;
+
+const chipClassName = (active: boolean) =>
+  `px-3 py-1.5 rounded-full border text-xs tracking-wide transition-all ${active ? 'border-highlight-400/60 bg-highlight-400/10 text-highlight-100' : 'border-white/10 bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+const PhotoScenePanel: React.FC<PhotoScenePanelProps> = ({ options, setOptions, onFrame, view3d, depthMap, onDepthMapFile, onClearDepthMap, onClose }) => {
+  const [draftTolerance, setDraftTolerance] = useState(options.backgroundTolerance);
+  const depthInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDepthFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onDepthMapFile(file);
+  };
+
+  useEffect(() => {
+    if (draftTolerance === options.backgroundTolerance) return;
+    const timer = setTimeout(() => setOptions({ ...options, backgroundTolerance: draftTolerance }), SLIDER_DELAY);
+    return () => clearTimeout(timer);
+  }, [draftTolerance, options, setOptions]);
+
+  const update = <K extends keyof PhotoSamplingOptions>(key: K, value: PhotoSamplingOptions[K]) => {
+    setOptions({ ...options, backgroundTolerance: draftTolerance, [key]: value });
+  };
+
+  const activeStyle = SAMPLING_STYLES.find(style => style.id === options.style) ?? SAMPLING_STYLES[0];
+
+  return (
+    <div className="fixed bottom-24 left-8 w-[calc(100%-4rem)] max-w-sm
+                    bg-backdrop-soft/60 backdrop-blur-xl border border-highlight-500/20 rounded-2xl p-6 shadow-2xl
+                    flex flex-col gap-4 z-50 cursor-default"
+         onClick={(e) => e.stopPropagation()}>
+
+      <div className="flex justify-between items-center border-b border-white/5 pb-2">
+        <h3 className="text-highlight-100 font-serif tracking-wide text-lg">Photo Particles</h3>
+        <button onClick={onClose} className="text-xs uppercase tracking-widest text-white/50 hover:text-white/80">Done</button>
+      </div>
+
+      <button
+        onClick={onFrame}
+        className="px-4 py-2 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs tracking-widest uppercase text-highlight-100/80 font-semibold"
+      >
+        Crop &amp; Position
+      </button>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Style</span>
+        <div className="flex flex-wrap gap-2">
+          {SAMPLING_STYLES.map(style => (
+            <button key={style.id} onClick={() => update('style', style.id)} className={chipClassName(options.style === style.id)}>
+              {style.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-white/40 mt-1">{activeStyle.hint}</p>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <label className="flex items-center gap-2 text-xs text-highlight-100/70 uppercase tracking-wider font-semibold cursor-pointer">
+          <input type="checkbox" checked={options.removeBackground} onChange={(e) => update('removeBackground', e.target.checked)} className="accent-highlight-400" />
+          Remove background
+        </label>
+        {options.removeBackground && (
+          <div className="flex flex-col gap-1">
+            <div className="flex justify-between text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">
+              <span>Tolerance</span>
+              <span>{draftTolerance}</span>
+            </div>
+            <input
+              type="range"
+              min="10"
+              max="150"
+              step="5"
+              value={draftTolerance}
+              onChange={(e) => setDraftTolerance(parseInt(e.target.value, 10))}
+              className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-highlight-400"
+            />
+          </div>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-highlight-100/70 uppercase tracking-wider font-semibold cursor-pointer">
+        <input type="checkbox" checked={options.festivePalette} onChange={(e) => update('festivePalette', e.target.checked)} className="accent-highlight-400" />
+        Festive colors
+        <span className="flex ml-1">
+          {FESTIVE_QUANTIZE_COLORS.map((c, i) => (
+            <span key={i} className="w-2.5 h-2.5 rounded-full -ml-0.5 first:ml-0" style={{ backgroundColor: `rgb(${c.r}, ${c.g}, ${c.b})` }} />
+          ))}
+        </span>
+      </label>
+
+      {view3d && (
+        <div className="flex flex-col gap-1">
+          <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Depth</span>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => depthInputRef.current?.click()} className={chipClassName(depthMap !== null)}>
+              {depthMap ? 'Replace Depth Map' : 'Upload Depth Map'}
+            </button>
+            {depthMap && (
+              <button onClick={onClearDepthMap} className={chipClassName(false)}>
+                Remove
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-white/40 mt-1">
+            {depthMap ? 'Brighter parts of the map stand closer' : "Brighter parts of the photo stand closer. A depth map of the same photo gives truer relief."}
+          </p>
+          <input ref={depthInputRef} type="file" accept="image/*" onChange={handleDepthFile} className="hidden" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhotoScenePanel;
@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LoveMessage, Theme } from '../types';
+import {
+  RecordingCancelledError,
+  RecordingPhase,
+  RecordingSession,
+  VIDEO_FRAME_RATES,
+  VIDEO_RESOLUTIONS,
+  downloadVideo,
+  isRecordingSupported,
+  recordScene
+} from '../utils/recorder';
+
+interface RecorderPanelProps {
+  getCanvas: () => HTMLCanvasElement | null;
+  onAssemble: () => void;
+  onRecordingChange: (recording: boolean) => void;
+  message: LoveMessage;
+  theme: Theme;
+  // The photo behind the message, the one on screen when a story shows its own
+  bgImage: string;
+  onClose: () => void;
+}
+
+const PHASE_LABELS: Record<RecordingPhase, string> = {
+  assemble: 'Assembling',
+  breathe: 'Breathing',
+  reveal: 'Revealing'
+};
+
+const chipClassName = (active: boolean) =>
+  `px-3 py-1.5 rounded-full border text-xs tracking-wide transition-all ${active ? 'border-highlight-400/60 bg-highlight-400/10 text-highlight-100' : 'border-white/10 bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+const RecorderPanel: React.FC<RecorderPanelProps> = ({ getCanvas, onAssemble, onRecordingChange, message, theme, bgImage, onClose }) => {
+  const [duration, setDuration] = useState(10);
+  const [fps, setFps] = useState(30);
+  const [resolutionId, setResolutionId] = useState(VIDEO_RESOLUTIONS[0].id);
+  const [includeMessage, setIncludeMessage] = useState(true);
+
+  const [progress, setProgress] = useState<number | null>(null);
+  const [phase, setPhase] = useState<RecordingPhase | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const sessionRef = useRef<RecordingSession | null>(null);
+
+  // Closing the panel mid-recording throws the recording away
+  useEffect(() => () => sessionRef.current?.cancel(), []);
+
+  const supported = isRecordingSupported();
+  const recording = progress !== null;
+
+  const handleRecord = () => {
+    const source = getCanvas();
+    if (!source) return;
+
+    setError(null);
+    setProgress(0);
+    onRecordingChange(true);
+
+    const session = recordScene({
+      source,
+      durationSeconds: duration,
+      fps,
+      resolution: VIDEO_RESOLUTIONS.find(r => r.id === resolutionId) ?? VIDEO_RESOLUTIONS[0],
+      theme,
+      overlay: includeMessage ? { message, backgroundImage: bgImage } : undefined,
+      onPhase: (next) => {
+        setPhase(next);
+        if (next === 'assemble') onAssemble();
+      },
+      onProgress: setProgress
+    });
+    sessionRef.current = session;
+
+    session.result
+      .then(blob => downloadVideo(blob))
+      .catch(e => {
+        if (e instanceof RecordingCancelledError) return;
+        console.error("Recording failed", e);
+        setError(e instanceof Error ? e.message : "Recording failed");
+      })
+      .finally(() => {
+        if (sessionRef.current === session) sessionRef.current = null;
+        setProgress(null);
+        setPhase(null);
+        onRecordingChange(false);
+      });
+  };
+
+  return (
+    <div className="fixed bottom-24 right-8 w-[calc(100%-4rem)] max-w-sm
+                    bg-backdrop-soft/60 backdrop-blur-xl border border-highlight-500/20 rounded-2xl p-6 shadow-2xl
+                    flex flex-col gap-4 z-50 cursor-default"
+         onClick={(e) => e.stopPropagation()}>
+
+      <div className="flex justify-between items-center border-b border-white/5 pb-2">
+        <h3 className="text-highlight-100 font-serif tracking-wide text-lg">Record Video</h3>
+        <button onClick={onClose} className="text-xs uppercase tracking-widest text-white/50 hover:text-white/80">Close</button>
+      </div>
+
+      {!supported && (
+        <p className="text-xs text-highlight-100/60">This browser can't record canvas video. Try a recent Chrome, Edge or Firefox.</p>
+      )}
+
+      <fieldset disabled={!supported || recording} className="flex flex-col gap-4 disabled:opacity-50">
+        <div className="flex flex-col gap-1">
+          <div className="flex justify-between text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">
+            <span>Duration</span>
+            <span>{duration}s</span>
+          </div>
+          <input
+            type="range"
+            min="5"
+            max="30"
+            step="1"
+            value={duration}
+            onChange={(e) => setDuration(parseInt(e.target.value, 10))}
+            className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-highlight-400"
+          />
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Frame Rate</span>
+          <div className="flex gap-2">
+            {VIDEO_FRAME_RATES.map(rate => (
+              <button key={rate} onClick={() => setFps(rate)} className={chipClassName(fps === rate)}>{rate} fps</button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Resolution</span>
+          <div className="flex flex-wrap gap-2">
+            {VIDEO_RESOLUTIONS.map(res => (
+              <button key={res.id} onClick={() => setResolutionId(res.id)} className={chipClassName(resolutionId === res.id)}>
+                {res.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-highlight-100/70 uppercase tracking-wider font-semibold cursor-pointer">
+          <input type="checkbox" checked={includeMessage} onChange={(e) => setIncludeMessage(e.target.checked)} className="accent-highlight-400" />
+          Reveal message at the end
+        </label>
+      </fieldset>
+
+      {recording ? (
+        <div className="flex flex-col gap-2">
+          <div className="flex justify-between text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">
+            <span>{phase ? PHASE_LABELS[phase] : 'Preparing'}</span>
+            <span>{Math.round((progress ?? 0) * 100)}%</span>
+          </div>
+          <div className="h-1 w-full bg-white/10 rounded-full overflow-hidden">
+            <div className="h-full bg-highlight-400 transition-[width] duration-200" style={{ width: `${(progress ?? 0) * 100}%` }} />
+          </div>
+          <button
+            onClick={() => sessionRef.current?.cancel()}
+            className="px-4 py-2 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs tracking-widest uppercase text-white/70 font-semibold"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleRecord}
+          disabled={!supported}
+          className="px-4 py-3 rounded-full border border-highlight-400/40 bg-highlight-400/15 hover:bg-highlight-400/25 text-xs tracking-widest uppercase text-highlight-100 font-semibold disabled:opacity-40"
+        >
+          Record
+        </button>
+      )}
+
+      {error && <p className="text-center text-xs text-highlight-100/60">{error}</p>}
+    </div>
+  );
+};
+
+export default RecorderPanel;
@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { RGB, TreeOptions, TreeStar } from '../types';
+import { DEFAULT_TREE, ORNAMENT_PALETTES, THEME_PALETTE_ID } from '../constants';
+import { listSceneGenerators } from '../particles/sceneGenerators';
+
+interface ScenePickerPanelProps {
+  sceneId: string;
+  setSceneId: (id: string) => void;
+  tree: TreeOptions;
+  setTree: (tree: TreeOptions) => void;
+  // The current theme's light colors, offered as the 'Theme' palette
+  themeLights: RGB[];
+  // Draws the scene again with a new seed
+  onShuffle: () => void;
+  onClose: () => void;
+}
+
+type TreeSlider = 'tiers' | 'aspect' | 'needles' | 'ornaments' | 'garlands';
+
+const TREE_SLIDERS: Record<TreeSlider, { label: string; min: number; max: number; step: number; format: (value: number) => string }> = {
+  tiers: { label: 'Tiers', min: 1, max: 5, step: 1, format: v => (v === 1 ? 'Smooth' : `${v}`) },
+  aspect: { label: 'Shape', min: 0.4, max: 1, step: 0.05, format: v => (v < 0.6 ? 'Slim' : v > 0.85 ? 'Full' : 'Classic') },
+  needles: { label: 'Branches', min: 500, max: 4000, step: 100, format: v => `${v}` },
+  ornaments: { label: 'Ornaments', min: 0, max: 300, step: 10, format: v => `${v}` },
+  garlands: { label: 'Garlands', min: 0, max: 4, step: 1, format: v => (v === 0 ? 'None' : `${v}`) }
+};
+
+const STARS: { id: TreeStar; label: string }[] = [
+  { id: 'star', label: 'Star' },
+  { id: 'glow', label: 'Glow' },
+  { id: 'none', label: 'None' }
+];
+
+// Rebuilding the tree is cheap but not free, so dragging a slider only updates it after a pause
+const SLIDER_DELAY = 200;
+
+const chipClassName = (active: boolean) =>
+  `px-3 py-1.5 rounded-full border text-xs tracking-wide transition-all ${active ? 'border-highlight-400/60 bg-highlight-400/10 text-highlight-100' : 'border-white/10 bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+// Every registered generator, built-in or added by a plugin, and the shape of the tree
+const ScenePickerPanel: React.FC<ScenePickerPanelProps> = ({ sceneId, setSceneId, tree, setTree, themeLights, onShuffle, onClose }) => {
+  const [draft, setDraft] = useState(tree);
+
+  useEffect(() => {
+    if (draft === tree) return;
+    const timer = setTimeout(() => setTree(draft), SLIDER_DELAY);
+    return () => clearTimeout(timer);
+  }, [draft, tree, setTree]);
+
+  const palettes = [{ id: THEME_PALETTE_ID, name: 'Theme', colors: themeLights }, ...ORNAMENT_PALETTES];
+
+  const update = <K extends keyof TreeOptions>(key: K, value: TreeOptions[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="fixed bottom-24 left-8 w-[calc(100%-4rem)] max-w-sm max-h-[70vh] overflow-y-auto
+                    bg-backdrop-soft/60 backdrop-blur-xl border border-highlight-500/20 rounded-2xl p-6 shadow-2xl
+                    flex flex-col gap-4 z-50 cursor-default"
+         onClick={(e) => e.stopPropagation()}>
+
+      <div className="flex justify-between items-center border-b border-white/5 pb-2">
+        <h3 className="text-highlight-100 font-serif tracking-wide text-lg">Scene</h3>
+        <button onClick={onClose} className="text-xs uppercase tracking-widest text-white/50 hover:text-white/80">Done</button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {listSceneGenerators().map(generator => (
+          <button
+            key={generator.id}
+            onClick={() => setSceneId(generator.id)}
+            aria-pressed={sceneId === generator.id}
+            title={generator.description}
+            className={chipClassName(sceneId === generator.id)}
+          >
+            {generator.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-white/40">Every shuffle places the particles differently.</span>
+        <button onClick={onShuffle} className={chipClassName(false)}>Shuffle</button>
+      </div>
+
+      {sceneId === 'tree' && (
+        <>
+          {(Object.keys(TREE_SLIDERS) as TreeSlider[]).map(key => {
+            const config = TREE_SLIDERS[key];
+            return (
+              <div key={key} className="flex flex-col gap-1">
+                <div className="flex justify-between text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">
+                  <span>{config.label}</span>
+                  <span>{config.format(draft[key])}</span>
+                </div>
+                <input
+                  type="range"
+                  min={config.min}
+                  max={config.max}
+                  step={config.step}
+                  value={draft[key]}
+                  onChange={(e) => update(key, parseFloat(e.target.value))}
+                  className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-highlight-400"
+                />
+              </div>
+            );
+          })}
+
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Topper</span>
+            <div className="flex gap-2">
+              {STARS.map(star => (
+                <button key={star.id} onClick={() => update('star', star.id)} className={chipClassName(draft.star === star.id)}>
+                  {star.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Ornaments & Lights</span>
+            <div className="flex flex-wrap gap-2">
+              {palettes.map(palette => (
+                <button key={palette.id} onClick={() => update('paletteId', palette.id)} className={`${chipClassName(draft.paletteId === palette.id)} flex items-center gap-2`}>
+                  <span className="flex">
+                    {palette.colors.map((c, i) => (
+                      <span key={i} className="w-2.5 h-2.5 rounded-full -ml-0.5 first:ml-0" style={{ backgroundColor: `rgb(${c.r}, ${c.g}, ${c.b})` }} />
+                    ))}
+                  </span>
+                  {palette.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={() => setDraft(DEFAULT_TREE)}
+            className="px-4 py-2 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs tracking-widest uppercase text-white/50 font-semibold"
+          >
+            Reset Tree
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScenePickerPanel;
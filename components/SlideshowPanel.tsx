@@ -0,0 +1,112 @@
+import React from 'react';
+import { Slide } from '../types';
+import { SlideshowState } from '../hooks/useSlideshow';
+import { ChevronLeftIcon, ChevronRightIcon, PauseIcon, PlayIcon } from './Icons';
+
+interface SlideshowPanelProps {
+  slides: Slide[];
+  setSlides: (slides: Slide[]) => void;
+  slideshow: SlideshowState;
+  onClose: () => void;
+}
+
+interface SlideshowControlsProps {
+  slides: Slide[];
+  slideshow: SlideshowState;
+  onEdit: () => void;
+}
+
+const iconButtonClassName = "p-2 rounded-full text-accent-100/80 hover:bg-white/10 disabled:opacity-30 transition-all";
+
+// Play/pause, previous/next and one dot per slide
+export const SlideshowControls: React.FC<SlideshowControlsProps> = ({ slides, slideshow, onEdit }) => (
+  <div className="flex items-center gap-1 px-2 py-1 bg-white/5 border border-white/10 rounded-full backdrop-blur-md shadow-lg shadow-accent-900/20"
+       onClick={(e) => e.stopPropagation()}>
+    <button onClick={slideshow.previous} disabled={slideshow.index === 0} aria-label="Previous photo" className={iconButtonClassName}>
+      <ChevronLeftIcon className="w-4 h-4" />
+    </button>
+    <button onClick={slideshow.togglePlaying} aria-label={slideshow.playing ? 'Pause slideshow' : 'Play slideshow'} className={iconButtonClassName}>
+      {slideshow.playing && !slideshow.isLast ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+    </button>
+    <button onClick={slideshow.next} disabled={slideshow.isLast} aria-label="Next photo" className={iconButtonClassName}>
+      <ChevronRightIcon className="w-4 h-4" />
+    </button>
+    <div className="flex items-center gap-1.5 px-2">
+      {slides.map((slide, i) => (
+        <button
+          key={slide.id}
+          onClick={() => slideshow.goTo(i)}
+          aria-label={`Photo ${i + 1}`}
+          className={`h-1.5 rounded-full transition-all ${i === slideshow.index ? 'w-4 bg-accent-200' : 'w-1.5 bg-white/30 hover:bg-white/60'}`}
+        />
+      ))}
+    </div>
+    <button onClick={onEdit} className="px-3 py-1.5 rounded-full text-xs tracking-widest uppercase text-accent-100/70 hover:bg-white/10 font-semibold">
+      Edit
+    </button>
+  </div>
+);
+
+// Reorder, time and remove the uploaded photos
+const SlideshowPanel: React.FC<SlideshowPanelProps> = ({ slides, setSlides, slideshow, onClose }) => {
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= slides.length) return;
+    const next = [...slides];
+    const [slide] = next.splice(from, 1);
+    next.splice(to, 0, slide);
+    setSlides(next);
+  };
+
+  const updateHold = (id: string, holdSeconds: number) => {
+    setSlides(slides.map(slide => (slide.id === id ? { ...slide, holdSeconds } : slide)));
+  };
+
+  const remove = (id: string) => {
+    setSlides(slides.filter(slide => slide.id !== id));
+  };
+
+  return (
+    <div className="fixed top-24 right-8 w-[calc(100%-4rem)] max-w-sm max-h-[60vh]
+                    bg-backdrop-soft/60 backdrop-blur-xl border border-highlight-500/20 rounded-2xl p-6 shadow-2xl
+                    flex flex-col gap-4 z-50 cursor-default"
+         onClick={(e) => e.stopPropagation()}>
+
+      <div className="flex justify-between items-center border-b border-white/5 pb-2">
+        <h3 className="text-highlight-100 font-serif tracking-wide text-lg">Slideshow</h3>
+        <button onClick={onClose} className="text-xs uppercase tracking-widest text-white/50 hover:text-white/80">Done</button>
+      </div>
+
+      <ol className="flex flex-col gap-3 overflow-y-auto pr-1">
+        {slides.map((slide, i) => (
+          <li key={slide.id} className={`flex items-center gap-3 p-2 rounded-xl border ${i === slideshow.index ? 'border-highlight-400/40 bg-highlight-400/5' : 'border-white/5'}`}>
+            <button onClick={() => slideshow.goTo(i)} aria-label={`Show photo ${i + 1}`} className="shrink-0">
+              <img src={slide.src} alt="" className="w-14 h-14 object-cover rounded-lg" />
+            </button>
+            <div className="flex-1 flex flex-col gap-1">
+              <div className="flex justify-between text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">
+                <span>Hold</span>
+                <span>{slide.holdSeconds}s</span>
+              </div>
+              <input
+                type="range"
+                min="2"
+                max="20"
+                step="1"
+                value={slide.holdSeconds}
+                onChange={(e) => updateHold(slide.id, parseInt(e.target.value, 10))}
+                className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-highlight-400"
+              />
+            </div>
+            <div className="flex flex-col text-white/50">
+              <button onClick={() => move(i, i - 1)} disabled={i === 0} aria-label="Move earlier" className="px-1 hover:text-white/90 disabled:opacity-30">↑</button>
+              <button onClick={() => move(i, i + 1)} disabled={i === slides.length - 1} aria-label="Move later" className="px-1 hover:text-white/90 disabled:opacity-30">↓</button>
+            </div>
+            <button onClick={() => remove(slide.id)} aria-label="Remove photo" className="px-1 text-white/40 hover:text-white/80">×</button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default SlideshowPanel;
@@ -0,0 +1,185 @@
+import React from 'react';
+import { StoryStep, StoryTransition } from '../types';
+import { StoryPlayback } from '../hooks/useStory';
+import { MAX_STORY_STEPS } from '../constants';
+import { getSceneGenerator } from '../particles/sceneGenerators';
+import { ChevronLeftIcon, ChevronRightIcon } from './Icons';
+
+interface StoryPanelProps {
+  steps: StoryStep[];
+  setSteps: (steps: StoryStep[]) => void;
+  story: StoryPlayback;
+  // Appends a step showing whatever is on screen now
+  onAddStep: () => void;
+  onClose: () => void;
+}
+
+interface StoryControlsProps {
+  steps: StoryStep[];
+  story: StoryPlayback;
+  // Stops playback, closing the end card if it is open
+  onExit: () => void;
+}
+
+const TRANSITIONS: { id: StoryTransition; label: string }[] = [
+  { id: 'morph', label: 'Morph' },
+  { id: 'scatter', label: 'Scatter' },
+  { id: 'cut', label: 'Cut' }
+];
+
+const iconButtonClassName = "p-2 rounded-full text-accent-100/80 hover:bg-white/10 disabled:opacity-30 transition-all";
+
+const chipClassName = (active: boolean) =>
+  `px-2.5 py-1 rounded-full border text-[11px] tracking-wide transition-all ${active ? 'border-highlight-400/60 bg-highlight-400/10 text-highlight-100' : 'border-white/10 bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+const stepLabel = (step: StoryStep) => {
+  if (step.mode === 'image') return 'Photo';
+  if (step.mode === 'text') return `"${step.text.replace(/\s*\n\s*/g, ' ').trim()}"`;
+  return getSceneGenerator(step.sceneId).label;
+};
+
+// Back/forward, one dot per step plus the end card, and a way out of the story
+export const StoryControls: React.FC<StoryControlsProps> = ({ steps, story, onExit }) => (
+  <div className="flex items-center gap-1 px-2 py-1 bg-white/5 border border-white/10 rounded-full backdrop-blur-md shadow-lg shadow-accent-900/20"
+       onClick={(e) => e.stopPropagation()}>
+    <button onClick={story.previous} disabled={story.index === 0} aria-label="Previous step" className={iconButtonClassName}>
+      <ChevronLeftIcon className="w-4 h-4" />
+    </button>
+    <div className="flex items-center gap-1.5 px-2">
+      {steps.map((step, i) => (
+        <button
+          key={step.id}
+          onClick={() => story.goTo(i)}
+          aria-label={`Step ${i + 1}`}
+          aria-current={i === story.index ? 'step' : undefined}
+          className={`h-1.5 rounded-full transition-all ${i === story.index ? 'w-4 bg-accent-200' : 'w-1.5 bg-white/30 hover:bg-white/60'}`}
+        />
+      ))}
+      <button
+        onClick={() => story.goTo(steps.length)}
+        aria-label="Message"
+        aria-current={story.atEnd ? 'step' : undefined}
+        className={`h-1.5 rounded-full transition-all ${story.atEnd ? 'w-4 bg-highlight-200' : 'w-1.5 bg-highlight-200/40 hover:bg-highlight-200/70'}`}
+      />
+    </div>
+    <button onClick={story.next} disabled={story.atEnd} aria-label="Next step" className={iconButtonClassName}>
+      <ChevronRightIcon className="w-4 h-4" />
+    </button>
+    <button onClick={onExit} className="px-3 py-1.5 rounded-full text-xs tracking-widest uppercase text-accent-100/70 hover:bg-white/10 font-semibold">
+      Exit
+    </button>
+  </div>
+);
+
+// The current step's card, over the particles
+export const StoryCaption: React.FC<{ step: StoryStep }> = ({ step }) => (
+  <div className="max-w-xl px-8 py-5 rounded-3xl border border-white/10 bg-white/5 backdrop-blur-md shadow-2xl text-center animate-fade-in-up">
+    <p className="font-display text-2xl md:text-3xl text-white/90 leading-snug whitespace-pre-line">{step.caption}</p>
+  </div>
+);
+
+// Orders the steps and sets each one's caption, pacing and transition
+const StoryPanel: React.FC<StoryPanelProps> = ({ steps, setSteps, story, onAddStep, onClose }) => {
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= steps.length) return;
+    const next = [...steps];
+    const [step] = next.splice(from, 1);
+    next.splice(to, 0, step);
+    setSteps(next);
+  };
+
+  const update = <K extends keyof StoryStep>(id: string, key: K, value: StoryStep[K]) => {
+    setSteps(steps.map(step => (step.id === id ? { ...step, [key]: value } : step)));
+  };
+
+  const remove = (id: string) => {
+    setSteps(steps.filter(step => step.id !== id));
+  };
+
+  return (
+    <div className="fixed top-24 right-8 w-[calc(100%-4rem)] max-w-md max-h-[70vh]
+                    bg-backdrop-soft/60 backdrop-blur-xl border border-highlight-500/20 rounded-2xl p-6 shadow-2xl
+                    flex flex-col gap-4 z-50 cursor-default"
+         onClick={(e) => e.stopPropagation()}>
+
+      <div className="flex justify-between items-center border-b border-white/5 pb-2">
+        <h3 className="text-highlight-100 font-serif tracking-wide text-lg">Story</h3>
+        <button onClick={onClose} className="text-xs uppercase tracking-widest text-white/50 hover:text-white/80">Done</button>
+      </div>
+
+      {steps.length === 0 && (
+        <p className="text-xs text-highlight-100/50">Set up a scene, then add it as a step. The story plays the steps in order and ends on your message.</p>
+      )}
+
+      <ol className="flex flex-col gap-3 overflow-y-auto pr-1">
+        {steps.map((step, i) => (
+          <li key={step.id} className="flex gap-3 p-3 rounded-xl border border-white/5">
+            <div className="flex-1 flex flex-col gap-2 min-w-0">
+              <div className="flex items-center gap-2 text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">
+                <span>{i + 1}</span>
+                {step.mode === 'image' && <img src={step.image} alt="" className="w-8 h-8 object-cover rounded" />}
+                <span className="truncate normal-case">{stepLabel(step)}</span>
+              </div>
+              <textarea
+                value={step.caption}
+                onChange={(e) => update(step.id, 'caption', e.target.value)}
+                placeholder="Caption (optional)"
+                rows={2}
+                maxLength={140}
+                className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white/90 placeholder-white/30 resize-none focus:outline-none focus:border-highlight-400/50"
+              />
+              <div className="flex flex-wrap items-center gap-1.5">
+                <button onClick={() => update(step.id, 'advance', 'tap')} className={chipClassName(step.advance === 'tap')}>Tap</button>
+                <button onClick={() => update(step.id, 'advance', 'timer')} className={chipClassName(step.advance === 'timer')}>
+                  {step.advance === 'timer' ? `${step.seconds}s` : 'Timer'}
+                </button>
+                <span className="w-px h-4 bg-white/10 mx-1" />
+                {TRANSITIONS.map(transition => (
+                  <button key={transition.id} onClick={() => update(step.id, 'transition', transition.id)} className={chipClassName(step.transition === transition.id)}>
+                    {transition.label}
+                  </button>
+                ))}
+              </div>
+              {step.advance === 'timer' && (
+                <input
+                  type="range"
+                  min="2"
+                  max="20"
+                  step="1"
+                  value={step.seconds}
+                  onChange={(e) => update(step.id, 'seconds', parseInt(e.target.value, 10))}
+                  aria-label="Seconds on screen"
+                  className="w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer accent-highlight-400"
+                />
+              )}
+            </div>
+            <div className="flex flex-col text-white/50">
+              <button onClick={() => move(i, i - 1)} disabled={i === 0} aria-label="Move earlier" className="px-1 hover:text-white/90 disabled:opacity-30">↑</button>
+              <button onClick={() => move(i, i + 1)} disabled={i === steps.length - 1} aria-label="Move later" className="px-1 hover:text-white/90 disabled:opacity-30">↓</button>
+              <button onClick={() => remove(step.id)} aria-label="Remove step" className="px-1 text-white/40 hover:text-white/80">×</button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onAddStep}
+          disabled={steps.length >= MAX_STORY_STEPS}
+          className="flex-1 px-4 py-2 rounded-full border border-white/10 bg-white/5 hover:bg-white/10 text-xs tracking-widest uppercase text-highlight-100/80 font-semibold disabled:opacity-30"
+        >
+          Add Current Scene
+        </button>
+        <button
+          onClick={() => { story.play(); onClose(); }}
+          disabled={steps.length === 0}
+          className="flex-1 px-4 py-2 rounded-full border border-highlight-400/40 bg-highlight-400/10 hover:bg-highlight-400/20 text-xs tracking-widest uppercase text-highlight-100 font-semibold disabled:opacity-30"
+        >
+          Play Story
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StoryPanel;
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { TextColoring, TextSceneOptions } from '../types';
+import { MESSAGE_FONTS, TEXT_PALETTES } from '../constants';
+
+interface TextScenePanelProps {
+  options: TextSceneOptions;
+  setOptions: (options: TextSceneOptions) => void;
+  onClose: () => void;
+}
+
+// Re-sampling the text is expensive, so typing only updates the scene after a pause
+const TYPING_DELAY = 400;
+
+const chipClassName = (active: boolean) =>
+  `px-3 py-1.5 rounded-full border text-xs tracking-wide transition-all ${active ? 'border-highlight-400/60 bg-highlight-400/10 text-highlight-100' : 'border-white/10 bg-white/5 text-white/60 hover:bg-white/10'}`;
+
+const TextScenePanel: React.FC<TextScenePanelProps> = ({ options, setOptions, onClose }) => {
+  const [draftText, setDraftText] = useState(options.text);
+
+  useEffect(() => {
+    if (draftText === options.text) return;
+    const timer = setTimeout(() => setOptions({ ...options, text: draftText }), TYPING_DELAY);
+    return () => clearTimeout(timer);
+  }, [draftText, options, setOptions]);
+
+  const update = <K extends keyof TextSceneOptions>(key: K, value: TextSceneOptions[K]) => {
+    setOptions({ ...options, text: draftText, [key]: value });
+  };
+
+  return (
+    <div className="fixed bottom-24 left-8 w-[calc(100%-4rem)] max-w-sm
+                    bg-backdrop-soft/60 backdrop-blur-xl border border-highlight-500/20 rounded-2xl p-6 shadow-2xl
+                    flex flex-col gap-4 z-50 cursor-default"
+         onClick={(e) => e.stopPropagation()}>
+
+      <div className="flex justify-between items-center border-b border-white/5 pb-2">
+        <h3 className="text-highlight-100 font-serif tracking-wide text-lg">Particle Text</h3>
+        <button onClick={onClose} className="text-xs uppercase tracking-widest text-white/50 hover:text-white/80">Done</button>
+      </div>
+
+      <label className="flex flex-col gap-1">
+        <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Text (one line per row)</span>
+        <textarea
+          rows={3}
+          value={draftText}
+          maxLength={80}
+          onChange={(e) => setDraftText(e.target.value)}
+          className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-sm text-white/90 resize-none focus:outline-none focus:border-highlight-400/50"
+        />
+      </label>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Font</span>
+        <div className="flex flex-wrap gap-2">
+          {MESSAGE_FONTS.map(font => (
+            <button key={font.id} onClick={() => update('font', font.id)} className={`${chipClassName(options.font === font.id)} ${font.className}`}>
+              {font.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <span className="text-xs text-highlight-100/70 uppercase tracking-wider font-semibold">Colors</span>
+        <div className="flex flex-wrap gap-2">
+          {TEXT_PALETTES.map(palette => (
+            <button key={palette.id} onClick={() => update('paletteId', palette.id)} className={`${chipClassName(options.paletteId === palette.id)} flex items-center gap-2`}>
+              <span className="flex">
+                {palette.colors.map((c, i) => (
+                  <span key={i} className="w-2.5 h-2.5 rounded-full -ml-0.5 first:ml-0" style={{ backgroundColor: `rgb(${c.r}, ${c.g}, ${c.b})` }} />
+                ))}
+              </span>
+              {palette.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2 mt-1">
+          {(['gradient', 'palette'] as TextColoring[]).map(coloring => (
+            <button key={coloring} onClick={() => update('coloring', coloring)} className={chipClassName(options.coloring === coloring)}>
+              {coloring === 'gradient' ? 'Gradient' : 'Mixed'}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TextScenePanel;
@@ -0,0 +1,203 @@
+import { ColorPalette, LightSettings, LoveMessage, MessageFont, MessageTemplate, ParticleSettings, PhotoFraming, PhotoSamplingOptions, RGB, SnowSettings, TextSceneOptions, TreeOptions, View3DSettings } from './types';
+
+// Reverted to local file as requested. 
+// Ensure 'tree.jpg' exists in your public folder.
+export const DEFAULT_IMAGE = "tree.jpg";
+
+// Settings for the particles
+export const DEFAULT_SETTINGS: ParticleSettings = {
+  gap: 5,             
+  size: 2.0,          
+  friction: 0.90,     
+  ease: 0.1,         
+  breathIntensity: 0.5,
+  morphDuration: 1.5,
+  pointerRadius: 80,
+  pointerStrength: 20
+};
+
+// Seed for generated scenes until the sender shuffles, so every fresh card starts from the same tree
+export const DEFAULT_SEED = 1225;
+
+export const DEFAULT_SNOW: SnowSettings = {
+  enabled: false,
+  density: 0.5,
+  wind: 0.5,
+  flakeSize: 2.5,
+  drift: true
+};
+
+export const DEFAULT_VIEW_3D: View3DSettings = {
+  enabled: false,
+  autoRotate: true
+};
+
+export const DEFAULT_LIGHTS: LightSettings = {
+  program: 'twinkle',
+  speed: 1
+};
+
+// Tree palette id for the current theme's own lights
+export const THEME_PALETTE_ID = 'theme';
+
+export const DEFAULT_TREE: TreeOptions = {
+  tiers: 1,
+  aspect: 0.75,
+  needles: 2000,
+  ornaments: 100,
+  garlands: 2,
+  star: 'star',
+  paletteId: THEME_PALETTE_ID
+};
+
+// Ornaments and string lights on the tree, picked in turn along each garland
+export const ORNAMENT_PALETTES: ColorPalette[] = [
+  {
+    id: 'classic',
+    name: 'Classic',
+    colors: [{ r: 220, g: 40, b: 40 }, { r: 255, g: 215, b: 0 }]
+  },
+  {
+    id: 'warm',
+    name: 'Warm White',
+    colors: [{ r: 255, g: 236, b: 190 }, { r: 255, g: 214, b: 150 }]
+  },
+  {
+    id: 'multi',
+    name: 'Multicolor',
+    colors: [{ r: 235, g: 50, b: 50 }, { r: 60, g: 200, b: 90 }, { r: 70, g: 140, b: 255 }, { r: 255, g: 200, b: 40 }, { r: 200, g: 90, b: 230 }]
+  },
+  {
+    id: 'icy',
+    name: 'Icy',
+    colors: [{ r: 240, g: 250, b: 255 }, { r: 150, g: 210, b: 255 }, { r: 80, g: 140, b: 240 }]
+  },
+  {
+    id: 'candy',
+    name: 'Candy Cane',
+    colors: [{ r: 255, g: 255, b: 255 }, { r: 230, g: 30, b: 60 }]
+  }
+];
+
+export const DEFAULT_MESSAGE: LoveMessage = {
+  headline: 'Love You',
+  subtitle: 'Forever',
+  quote: 'Every moment with you is my favorite gift.',
+  tagline: 'Always',
+  headlineFont: 'romantic',
+  subtitleFont: 'serif'
+};
+
+export const MESSAGE_FONTS: { id: MessageFont; label: string; className: string; family: string }[] = [
+  { id: 'romantic', label: 'Script', className: 'font-romantic', family: "'Pinyon Script', cursive" },
+  { id: 'serif', label: 'Serif', className: 'font-serif', family: "'Playfair Display', serif" },
+  { id: 'cinzel', label: 'Classic', className: 'font-cinzel', family: "'Cinzel', serif" }
+];
+
+// Color sets for text particles
+export const TEXT_PALETTES: ColorPalette[] = [
+  {
+    id: 'gold',
+    name: 'Gold',
+    colors: [{ r: 255, g: 247, b: 214 }, { r: 251, g: 191, b: 36 }, { r: 217, g: 119, b: 6 }]
+  },
+  {
+    id: 'festive',
+    name: 'Festive',
+    colors: [{ r: 220, g: 40, b: 40 }, { r: 255, g: 215, b: 0 }, { r: 34, g: 160, b: 80 }]
+  },
+  {
+    id: 'frost',
+    name: 'Frost',
+    colors: [{ r: 255, g: 255, b: 255 }, { r: 186, g: 230, b: 253 }, { r: 96, g: 165, b: 250 }]
+  },
+  {
+    id: 'rose',
+    name: 'Rose',
+    colors: [{ r: 255, g: 228, b: 230 }, { r: 251, g: 113, b: 133 }, { r: 190, g: 18, b: 60 }]
+  }
+];
+
+export const DEFAULT_PHOTO_SAMPLING: PhotoSamplingOptions = {
+  style: 'grid',
+  removeBackground: false,
+  backgroundTolerance: 60,
+  festivePalette: false
+};
+
+// Centered and whole, at the size the photo scene always used
+export const DEFAULT_FRAMING: PhotoFraming = {
+  fit: 'contain',
+  zoom: 1,
+  focusX: 0.5,
+  focusY: 0.5,
+  rotation: 0,
+  crop: { left: 0, top: 0, right: 0, bottom: 0 }
+};
+
+// Story steps a card can hold, which also keeps shared links a sensible length
+export const MAX_STORY_STEPS = 12;
+export const DEFAULT_STORY_SECONDS = 6;
+
+// Photo colors snap to the nearest of these when the festive palette is on
+export const FESTIVE_QUANTIZE_COLORS: RGB[] = [
+  { r: 120, g: 16, b: 24 },   // Deep red
+  { r: 220, g: 40, b: 40 },   // Red
+  { r: 217, g: 119, b: 6 },   // Amber
+  { r: 255, g: 215, b: 0 },   // Gold
+  { r: 255, g: 243, b: 200 }, // Candlelight
+  { r: 16, g: 70, b: 40 },    // Pine
+  { r: 34, g: 160, b: 80 }    // Holly
+];
+
+export const DEFAULT_TEXT_SCENE: TextSceneOptions = {
+  text: 'Merry\nChristmas',
+  font: 'romantic',
+  coloring: 'gradient',
+  paletteId: 'gold'
+};
+
+// Starter messages for the composer
+export const MESSAGE_TEMPLATES: MessageTemplate[] = [
+  {
+    id: 'romantic',
+    name: 'Romantic',
+    message: DEFAULT_MESSAGE
+  },
+  {
+    id: 'family',
+    name: 'Family',
+    message: {
+      headline: 'Home for the Holidays',
+      subtitle: 'Together',
+      quote: 'The best gifts are the people around our table.',
+      tagline: 'With Love',
+      headlineFont: 'serif',
+      subtitleFont: 'cinzel'
+    }
+  },
+  {
+    id: 'friends',
+    name: 'Friends',
+    message: {
+      headline: 'Cheers, Friend',
+      subtitle: 'To Us',
+      quote: 'Here is to another year of laughs, late nights and good company.',
+      tagline: 'Always',
+      headlineFont: 'cinzel',
+      subtitleFont: 'serif'
+    }
+  },
+  {
+    id: 'season',
+    name: "Season's Greetings",
+    message: {
+      headline: 'Merry Christmas',
+      subtitle: '& Happy New Year',
+      quote: 'Wishing you peace, joy and a little bit of magic.',
+      tagline: 'Noël',
+      headlineFont: 'romantic',
+      subtitleFont: 'serif'
+    }
+  }
+];
@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from 'react';
+import { imageFiles } from '../utils/imageInput';
+
+interface ImageDropHandlers {
+  onFiles(files: File[]): void;
+  onUrl(url: string): void;
+}
+
+const isWebUrl = (text: string) => /^https?:\/\/\S+$/i.test(text);
+
+// Pasting into a text field is typing, not a photo
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && target.closest('input, textarea, [contenteditable="true"]') !== null;
+
+/**
+ * Photos dropped anywhere on the page or pasted outside a text field: image files, or a link
+ * to an image dragged from another tab or copied. Returns whether something is being dragged
+ * over the page, for a drop hint.
+ */
+export const useImageDrop = (handlers: ImageDropHandlers, enabled = true) => {
+  const [dragging, setDragging] = useState(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    // dragenter and dragleave fire for every child crossed, only the outermost pair counts
+    let depth = 0;
+
+    const accepts = (e: DragEvent) => {
+      const types = e.dataTransfer?.types ?? [];
+      return types.includes('Files') || types.includes('text/uri-list');
+    };
+
+    const handleEnter = (e: DragEvent) => {
+      if (!accepts(e)) return;
+      depth++;
+      setDragging(true);
+    };
+
+    const handleOver = (e: DragEvent) => {
+      if (!accepts(e)) return;
+      // Without this the browser opens the file itself
+      e.preventDefault();
+      if (e.dataTransfer) e.dataTransfer.dropEffect = 'copy';
+    };
+
+    const handleLeave = (e: DragEvent) => {
+      if (!accepts(e)) return;
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) setDragging(false);
+    };
+
+    const handleDrop = (e: DragEvent) => {
+      if (!accepts(e)) return;
+      e.preventDefault();
+      depth = 0;
+      setDragging(false);
+      const files = imageFiles(e.dataTransfer?.files ?? []);
+      if (files.length > 0) {
+        handlersRef.current.onFiles(files);
+        return;
+      }
+      const url = e.dataTransfer?.getData('text/uri-list').split('\n').find(line => isWebUrl(line.trim()));
+      if (url) handlersRef.current.onUrl(url.trim());
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditable(e.target)) return;
+      const files = imageFiles(e.clipboardData?.files ?? []);
+      if (files.length > 0) {
+        e.preventDefault();
+        handlersRef.current.onFiles(files);
+        return;
+      }
+      const text = e.clipboardData?.getData('text/plain').trim() ?? '';
+      if (isWebUrl(text)) {
+        e.preventDefault();
+        handlersRef.current.onUrl(text);
+      }
+    };
+
+    window.addEventListener('dragenter', handleEnter);
+    window.addEventListener('dragover', handleOver);
+    window.addEventListener('dragleave', handleLeave);
+    window.addEventListener('drop', handleDrop);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('dragenter', handleEnter);
+      window.removeEventListener('dragover', handleOver);
+      window.removeEventListener('dragleave', handleLeave);
+      window.removeEventListener('drop', handleDrop);
+      window.removeEventListener('paste', handlePaste);
+      setDragging(false);
+    };
+  }, [enabled]);
+
+  return dragging;
+};
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioLevels } from '../types';
+import { MusicPlayer, SILENT_LEVELS } from '../utils/music';
+
+export interface MusicState {
+  trackName: string | null;
+  // False until the first tap has been allowed to start the audio
+  playing: boolean;
+  muted: boolean;
+  load(file: File): void;
+  toggleMuted(): void;
+}
+
+// How long the music takes to fade out when the message opens, and back in when it closes
+const FADE_OUT_SECONDS = 2;
+const FADE_IN_SECONDS = 1;
+
+/**
+ * Background music for the card. Autoplay rules only let audio start after a user gesture,
+ * so a loaded track that can't play yet starts on the next tap anywhere on the page. While it plays,
+ * `onLevels` gets the music's energy once per frame.
+ */
+export const useMusic = (faded: boolean, onLevels: (levels: AudioLevels) => void): MusicState => {
+  const [player, setPlayer] = useState<MusicPlayer | null>(null);
+  const [trackName, setTrackName] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const onLevelsRef = useRef(onLevels);
+  onLevelsRef.current = onLevels;
+
+  const load = useCallback((file: File) => {
+    const url = URL.createObjectURL(file);
+    setPlayer(new MusicPlayer(url));
+    setTrackName(file.name.replace(/\.[^.]+$/, ''));
+    setPlaying(false);
+  }, []);
+
+  // Replacing or unmounting a player releases its audio
+  useEffect(() => {
+    if (!player) return;
+    return () => player.dispose();
+  }, [player]);
+
+  // Try right away (earlier taps on the page may already allow it), otherwise on the next tap
+  useEffect(() => {
+    if (!player || playing) return;
+    const handleTap = () => {
+      player.start()
+        .then(() => setPlaying(true))
+        .catch(e => console.warn("Music could not start yet", e));
+    };
+    handleTap();
+    window.addEventListener('pointerdown', handleTap);
+    return () => window.removeEventListener('pointerdown', handleTap);
+  }, [player, playing]);
+
+  useEffect(() => {
+    player?.setMuted(muted);
+  }, [player, muted]);
+
+  useEffect(() => {
+    player?.fade(faded, faded ? FADE_OUT_SECONDS : FADE_IN_SECONDS);
+  }, [player, faded]);
+
+  useEffect(() => {
+    if (!player || !playing) return;
+    let frameId = 0;
+    const measure = () => {
+      onLevelsRef.current(player.readLevels());
+      frameId = requestAnimationFrame(measure);
+    };
+    frameId = requestAnimationFrame(measure);
+    return () => {
+      cancelAnimationFrame(frameId);
+      onLevelsRef.current(SILENT_LEVELS);
+    };
+  }, [player, playing]);
+
+  return {
+    trackName,
+    playing,
+    muted,
+    load,
+    toggleMuted: () => setMuted(prev => !prev)
+  };
+};
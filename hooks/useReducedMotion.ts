@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+const QUERY = '(prefers-reduced-motion: reduce)';
+
+// Follows the system's "reduce motion" setting, including changes while the page is open
+export const useReducedMotion = () => {
+  const [reduced, setReduced] = useState(() => window.matchMedia(QUERY).matches);
+
+  useEffect(() => {
+    const media = window.matchMedia(QUERY);
+    const handleChange = () => setReduced(media.matches);
+    media.addEventListener('change', handleChange);
+    return () => media.removeEventListener('change', handleChange);
+  }, []);
+
+  return reduced;
+};
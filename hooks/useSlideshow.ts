@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Slide } from '../types';
+
+export interface SlideshowState {
+  index: number;
+  playing: boolean;
+  isLast: boolean;
+  next(): void;
+  previous(): void;
+  goTo(index: number): void;
+  togglePlaying(): void;
+  restart(): void;
+}
+
+// Steps through the slides, holding each for its own duration. Playback stops on the
+// last slide so the card's message can be opened from there.
+export const useSlideshow = (slides: Slide[]): SlideshowState => {
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(true);
+
+  const count = slides.length;
+  const isLast = index >= count - 1;
+
+  // Keep the index valid when slides are removed
+  useEffect(() => {
+    setIndex(i => Math.min(i, Math.max(0, count - 1)));
+  }, [count]);
+
+  useEffect(() => {
+    if (!playing || count < 2 || isLast) return;
+    const timer = setTimeout(() => setIndex(i => i + 1), slides[index].holdSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [playing, index, count, isLast, slides]);
+
+  const goTo = useCallback((target: number) => {
+    setIndex(Math.max(0, Math.min(count - 1, target)));
+  }, [count]);
+
+  const togglePlaying = useCallback(() => {
+    // Playing again from the end starts over
+    if (!playing && isLast) setIndex(0);
+    setPlaying(!playing);
+  }, [playing, isLast]);
+
+  const restart = useCallback(() => {
+    setIndex(0);
+    setPlaying(true);
+  }, []);
+
+  return {
+    index,
+    playing,
+    isLast,
+    next: () => goTo(index + 1),
+    previous: () => goTo(index - 1),
+    goTo,
+    togglePlaying,
+    restart
+  };
+};
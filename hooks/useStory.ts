@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+import { StoryStep } from '../types';
+
+export interface StoryPlayback {
+  // Current step, steps.length once the end card shows
+  index: number;
+  playing: boolean;
+  atEnd: boolean;
+  // The step the particles show, undefined while stopped. The end card keeps the last one behind it.
+  step: StoryStep | undefined;
+  play(): void;
+  stop(): void;
+  next(): void;
+  previous(): void;
+  goTo(index: number): void;
+}
+
+// Walks through the story's steps and on to the end card. Timed steps move on by
+// themselves, every step also moves on when tapped.
+export const useStory = (steps: StoryStep[], autoplay = false): StoryPlayback => {
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(autoplay && steps.length > 0);
+
+  const count = steps.length;
+  const atEnd = playing && index >= count;
+  const step = playing ? steps[Math.min(index, count - 1)] : undefined;
+
+  // Keep the index valid when steps are removed, and stop once there are none
+  useEffect(() => {
+    setIndex(i => Math.min(i, count));
+    if (count === 0) setPlaying(false);
+  }, [count]);
+
+  useEffect(() => {
+    if (!step || atEnd || step.advance !== 'timer') return;
+    const timer = setTimeout(() => setIndex(i => i + 1), step.seconds * 1000);
+    return () => clearTimeout(timer);
+  }, [step, atEnd]);
+
+  const goTo = useCallback((target: number) => {
+    setIndex(Math.max(0, Math.min(count, target)));
+  }, [count]);
+
+  const play = useCallback(() => {
+    setIndex(0);
+    setPlaying(count > 0);
+  }, [count]);
+
+  const stop = useCallback(() => setPlaying(false), []);
+
+  return {
+    index,
+    playing,
+    atEnd,
+    step,
+    play,
+    stop,
+    next: () => goTo(index + 1),
+    previous: () => goTo(index - 1),
+    goTo
+  };
+};
@@ -0,0 +1,65 @@
+import { ParticleStore, depthAlpha } from './ParticleStore';
+import { ORNAMENT_GLOW_BLUR, ParticleRenderer, RenderTarget, TRAIL_COLOR, TrailColor } from './renderer';
+import { RenderQuality } from './quality';
+import { Projection } from './camera';
+
+// The original renderer: one arc per particle, shadowBlur for ornament glow
+export class Canvas2DRenderer implements ParticleRenderer {
+  readonly backend = 'canvas2d';
+  quality: RenderQuality = { glow: true, trails: true };
+  trail: TrailColor = TRAIL_COLOR;
+
+  private width = 0;
+  private height = 0;
+  private pixelRatio = 1;
+
+  private constructor(private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D) {}
+
+  static create(canvas: RenderTarget) {
+    const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+    return ctx ? new Canvas2DRenderer(ctx) : null;
+  }
+
+  resize(width: number, height: number, pixelRatio: number) {
+    this.width = width;
+    this.height = height;
+    this.pixelRatio = pixelRatio;
+    this.ctx.canvas.width = Math.round(width * pixelRatio);
+    this.ctx.canvas.height = Math.round(height * pixelRatio);
+    // Resizing resets the context, the transform has to follow
+    this.ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  }
+
+  render(store: ParticleStore, glow: number, projection: Projection | null) {
+    const ctx = this.ctx;
+    const { glow: drawGlow, trails } = this.quality;
+    const { r, g, b, a } = this.trail;
+    ctx.fillStyle = `rgba(${r}, ${g}, ${b}, ${trails ? a : 1})`;
+    ctx.fillRect(0, 0, this.width, this.height);
+
+    for (let n = 0; n < store.count; n++) {
+      const i = projection ? projection.order[n] : n;
+      if (projection && projection.fade[i] <= 0) continue;
+      ctx.globalAlpha = projection ? projection.fade[i] : depthAlpha(store.z[i]);
+
+      const color = `rgba(${Math.round(store.r[i])}, ${Math.round(store.g[i])}, ${Math.round(store.b[i])}, ${store.alpha[i]})`;
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      if (projection) ctx.arc(projection.x[i], projection.y[i], store.size[i] * projection.scale[i], 0, Math.PI * 2);
+      else ctx.arc(store.x[i], store.y[i], store.size[i], 0, Math.PI * 2);
+      ctx.fill();
+
+      if (drawGlow && store.isOrnament(i)) {
+         // Shadows ignore the transform, so the blur is given in device pixels
+         ctx.shadowBlur = ORNAMENT_GLOW_BLUR * glow * this.pixelRatio;
+         ctx.shadowColor = color;
+         ctx.fill();
+         ctx.shadowBlur = 0;
+      }
+    }
+
+    ctx.globalAlpha = 1.0;
+  }
+
+  dispose() {}
+}
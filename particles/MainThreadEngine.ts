@@ -0,0 +1,97 @@
+import { AudioLevels, InteractionMode, LightSettings, ParticleSettings, View3DSettings } from '../types';
+import { createRenderer } from './createRenderer';
+import { EngineStats, ParticleEngine } from './engine';
+import { LayoutSize } from './layout';
+import { RenderQuality } from './quality';
+import { ParticleLoop } from './loop';
+import { RendererBackend, TrailColor } from './renderer';
+import { ParticleSimulation, PointerState } from './simulation';
+
+// Same loop as the worker, for browsers without OffscreenCanvas
+export class MainThreadEngine implements ParticleEngine {
+  readonly ready: Promise<RendererBackend>;
+  onStats: ((stats: EngineStats) => void) | null = null;
+  private loop: ParticleLoop | null = null;
+
+  constructor(canvas: HTMLCanvasElement, backend: RendererBackend | 'auto', settings: ParticleSettings, width: number, height: number, pixelRatio: number, seed: number) {
+    const renderer = createRenderer(canvas, backend);
+    if (renderer) {
+      const simulation = new ParticleSimulation(settings, width, height, seed);
+      this.loop = new ParticleLoop(renderer, simulation, pixelRatio, stats => this.onStats?.(stats));
+      this.loop.start();
+      this.ready = Promise.resolve(renderer.backend);
+    } else {
+      this.ready = Promise.reject(new Error("No renderer available for the canvas"));
+    }
+  }
+
+  setSpecs(specs: Float32Array, frames: number, layout: LayoutSize) {
+    this.loop?.simulation.setSpecs(specs, frames, layout);
+  }
+
+  setSettings(settings: ParticleSettings) {
+    if (this.loop) this.loop.simulation.settings = settings;
+  }
+
+  setPointers(pointers: PointerState[]) {
+    // Copied, the caller keeps mutating its own objects
+    if (this.loop) this.loop.simulation.pointers = pointers.map(p => ({ ...p }));
+  }
+
+  setInteraction(mode: InteractionMode) {
+    if (this.loop) this.loop.simulation.interaction = mode;
+  }
+
+  burst(x: number, y: number) {
+    this.loop?.simulation.burst(x, y);
+  }
+
+  setAudioLevels(levels: AudioLevels) {
+    if (this.loop) this.loop.simulation.audio = levels;
+  }
+
+  scatter(range: number) {
+    this.loop?.simulation.scatter(range);
+  }
+
+  resize(width: number, height: number, pixelRatio: number) {
+    this.loop?.resize(width, height, pixelRatio);
+  }
+
+  setQuality(quality: RenderQuality) {
+    this.loop?.setQuality(quality);
+  }
+
+  setTrailColor(color: TrailColor) {
+    this.loop?.setTrailColor(color);
+  }
+
+  setReducedMotion(reduced: boolean) {
+    if (this.loop) this.loop.simulation.reducedMotion = reduced;
+  }
+
+  setLights(lights: LightSettings) {
+    if (this.loop) this.loop.simulation.lights = lights;
+  }
+
+  setView(view: View3DSettings) {
+    this.loop?.simulation.setView(view);
+  }
+
+  orbit(dx: number, dy: number) {
+    this.loop?.simulation.orbit(dx, dy);
+  }
+
+  zoom(factor: number) {
+    this.loop?.simulation.zoom(factor);
+  }
+
+  setPaused(paused: boolean) {
+    this.loop?.setPaused(paused);
+  }
+
+  dispose() {
+    this.loop?.dispose();
+    this.loop = null;
+  }
+}
@@ -0,0 +1,84 @@
+// Bit flags stored per particle
+export const ORNAMENT = 1;
+export const EXPIRED = 2; // Faded out surplus, dropped on the next compaction
+export const LIGHT = 4; // Follows the light program
+
+// Every per-particle number, one typed array each (structure of arrays)
+const FLOAT_FIELDS = [
+  // Current state
+  'x', 'y', 'vx', 'vy', 'originX', 'originY',
+  'z', // Parallax layer in the flat view (-1 to 1)
+  // Position, velocity and home along the 3D view's depth axis, in pixels
+  'wz', 'vz', 'originZ',
+  'phase', // Random breathing offset
+  'lightPos', // Place along its string of lights, 0 to 1
+  // Look at rest, and as drawn this frame after lights and twinkle
+  'baseR', 'baseG', 'baseB', 'baseAlpha', 'baseSize',
+  'r', 'g', 'b', 'alpha', 'size',
+  // Morph state: progress and the values being blended between
+  'morphFrame', 'morphFrames',
+  'fromX', 'fromY', 'fromZ', 'fromR', 'fromG', 'fromB', 'fromAlpha', 'fromSize',
+  'toX', 'toY', 'toZ', 'toR', 'toG', 'toB', 'toAlpha', 'toSize'
+] as const;
+
+const BYTE_FIELDS = ['flags', 'toFlags'] as const;
+
+type FloatField = typeof FLOAT_FIELDS[number];
+type ByteField = typeof BYTE_FIELDS[number];
+
+// Packed ParticleSpec layout: x, y, r, g, b, alpha, size, isOrnament, light (-1 for none), z
+export const SPEC_STRIDE = 10;
+
+// 3D Lighting Effect: particles further back are dimmer (the flat view, the 3D view uses fog)
+export const depthAlpha = (z: number) => Math.max(0.2, Math.min(1, 0.8 + z * 0.4));
+
+/**
+ * Particle state as parallel typed arrays instead of one object per particle,
+ * so a frame touches contiguous memory and creates no garbage.
+ */
+export class ParticleStore {
+  count = 0;
+  readonly capacity: number;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    FLOAT_FIELDS.forEach(field => { this[field] = new Float32Array(capacity); });
+    BYTE_FIELDS.forEach(field => { this[field] = new Uint8Array(capacity); });
+  }
+
+  isOrnament(i: number) {
+    return (this.flags[i] & ORNAMENT) !== 0;
+  }
+
+  isMorphing(i: number) {
+    return this.morphFrames[i] > 0;
+  }
+
+  isFadingOut(i: number) {
+    return this.isMorphing(i) && this.toAlpha[i] <= 0;
+  }
+
+  // Copies particle `i` of this store into slot `j` of `target`
+  copyTo(i: number, target: ParticleStore, j: number) {
+    FLOAT_FIELDS.forEach(field => { target[field][j] = this[field][i]; });
+    BYTE_FIELDS.forEach(field => { target[field][j] = this[field][i]; });
+  }
+
+  // Drops expired particles, keeping the draw order of the rest
+  compact() {
+    const keep: number[] = [];
+    for (let i = 0; i < this.count; i++) {
+      if (!(this.flags[i] & EXPIRED)) keep.push(i);
+    }
+    // One field at a time keeps each pass on a single array
+    const shift = (array: Float32Array | Uint8Array) => {
+      keep.forEach((from, to) => { array[to] = array[from]; });
+    };
+    FLOAT_FIELDS.forEach(field => shift(this[field]));
+    BYTE_FIELDS.forEach(field => shift(this[field]));
+    this.count = keep.length;
+  }
+}
+
+// Typed array fields, declared through the field lists above
+export interface ParticleStore extends Record<FloatField, Float32Array>, Record<ByteField, Uint8Array> {}
@@ -0,0 +1,335 @@
+import { ORNAMENT, ParticleStore, depthAlpha } from './ParticleStore';
+import { ORNAMENT_GLOW_BLUR, ParticleRenderer, RenderTarget, TRAIL_COLOR, TrailColor } from './renderer';
+import { RenderQuality } from './quality';
+import { Projection } from './camera';
+
+// Interleaved per-particle attributes: x, y, radius, r, g, b, a
+const FLOATS_PER_PARTICLE = 7;
+const STRIDE = FLOATS_PER_PARTICLE * Float32Array.BYTES_PER_ELEMENT;
+
+const POINT_VERTEX_SHADER = `
+  attribute vec2 a_position;
+  attribute float a_radius;
+  attribute vec4 a_color;
+
+  uniform vec2 u_resolution;
+  uniform float u_pixelRatio;
+  uniform float u_glow;
+  uniform float u_blur;
+
+  varying vec4 v_color;
+  varying float v_radius;
+  varying float v_pointSize;
+
+  void main() {
+    vec2 clip = (a_position / u_resolution) * 2.0 - 1.0;
+    gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+
+    // Positions are in CSS pixels, point sizes in device pixels.
+    // Room for antialiasing, plus the halo when drawing the glow pass (u_blur is in device pixels too).
+    v_radius = a_radius * u_pixelRatio;
+    v_pointSize = 2.0 * (v_radius + 1.0 + u_glow * u_blur * 1.5);
+    gl_PointSize = v_pointSize;
+    v_color = a_color;
+  }
+`;
+
+const POINT_FRAGMENT_SHADER = `
+  precision mediump float;
+
+  uniform float u_glow;
+  uniform float u_blur;
+
+  varying vec4 v_color;
+  varying float v_radius;
+  varying float v_pointSize;
+
+  void main() {
+    float dist = length(gl_PointCoord - 0.5) * v_pointSize;
+    float alpha;
+    if (u_glow > 0.5) {
+      // Gaussian falloff outside the disc, like a canvas shadow
+      float sigma = u_blur / 2.0;
+      float outside = max(0.0, dist - v_radius);
+      alpha = exp(-(outside * outside) / (2.0 * sigma * sigma)) * 0.6;
+    } else {
+      alpha = clamp(v_radius - dist + 0.5, 0.0, 1.0);
+    }
+    if (alpha <= 0.0) discard;
+    gl_FragColor = vec4(v_color.rgb, v_color.a * alpha);
+  }
+`;
+
+const TRAIL_VERTEX_SHADER = `
+  attribute vec2 a_corner;
+  void main() {
+    gl_Position = vec4(a_corner, 0.0, 1.0);
+  }
+`;
+
+const TRAIL_FRAGMENT_SHADER = `
+  precision mediump float;
+  uniform vec4 u_color;
+  void main() {
+    gl_FragColor = u_color;
+  }
+`;
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.error("Shader compile failed:", gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+};
+
+const createProgram = (gl: WebGLRenderingContext, vertexSource: string, fragmentSource: string) => {
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, vertexSource);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+  const program = gl.createProgram();
+  if (!vertex || !fragment || !program) return null;
+
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error("Program link failed:", gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+};
+
+// Everything created on the GL context, rebuilt when a lost context is restored.
+// Uniform and attribute locations are looked up once per link, not per frame.
+interface GLResources {
+  pointProgram: WebGLProgram;
+  trailProgram: WebGLProgram;
+  pointBuffer: WebGLBuffer;
+  trailBuffer: WebGLBuffer;
+  uniforms: {
+    resolution: WebGLUniformLocation | null;
+    pixelRatio: WebGLUniformLocation | null;
+    blur: WebGLUniformLocation | null;
+    glow: WebGLUniformLocation | null;
+    color: WebGLUniformLocation | null;
+  };
+  attributes: {
+    position: number;
+    radius: number;
+    color: number;
+    corner: number;
+  };
+}
+
+const createResources = (gl: WebGLRenderingContext): GLResources | null => {
+  const pointProgram = createProgram(gl, POINT_VERTEX_SHADER, POINT_FRAGMENT_SHADER);
+  const trailProgram = createProgram(gl, TRAIL_VERTEX_SHADER, TRAIL_FRAGMENT_SHADER);
+  const pointBuffer = gl.createBuffer();
+  const trailBuffer = gl.createBuffer();
+  if (!pointProgram || !trailProgram || !pointBuffer || !trailBuffer) return null;
+
+  gl.bindBuffer(gl.ARRAY_BUFFER, trailBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  gl.enable(gl.BLEND);
+
+  return {
+    pointProgram,
+    trailProgram,
+    pointBuffer,
+    trailBuffer,
+    uniforms: {
+      resolution: gl.getUniformLocation(pointProgram, 'u_resolution'),
+      pixelRatio: gl.getUniformLocation(pointProgram, 'u_pixelRatio'),
+      blur: gl.getUniformLocation(pointProgram, 'u_blur'),
+      glow: gl.getUniformLocation(pointProgram, 'u_glow'),
+      color: gl.getUniformLocation(trailProgram, 'u_color')
+    },
+    attributes: {
+      position: gl.getAttribLocation(pointProgram, 'a_position'),
+      radius: gl.getAttribLocation(pointProgram, 'a_radius'),
+      color: gl.getAttribLocation(pointProgram, 'a_color'),
+      corner: gl.getAttribLocation(trailProgram, 'a_corner')
+    }
+  };
+};
+
+// Draws every particle as a point sprite in a single draw call, then redraws the
+// ornaments with additive blending for their glow. A lost GPU context pauses drawing
+// until the browser restores it, then everything is built again.
+export class WebGLRenderer implements ParticleRenderer {
+  readonly backend = 'webgl';
+  quality: RenderQuality = { glow: true, trails: true };
+  trail: TrailColor = TRAIL_COLOR;
+
+  private data = new Float32Array(0);
+  private width = 0;
+  private height = 0;
+  private pixelRatio = 1;
+
+  private constructor(
+    private gl: WebGLRenderingContext,
+    private canvas: HTMLCanvasElement,
+    private resources: GLResources | null
+  ) {
+    canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
+  }
+
+  static create(canvas: RenderTarget) {
+    // Both canvas kinds take the same options and fire the same context events,
+    // the cast only picks an overload
+    const target = canvas as HTMLCanvasElement;
+    const gl = target.getContext('webgl', {
+      // Trails need last frame's pixels to paint over
+      preserveDrawingBuffer: true,
+      antialias: false,
+      // Software WebGL is slower than Canvas2D, so treat it as unavailable
+      failIfMajorPerformanceCaveat: true
+    });
+    if (!gl) return null;
+
+    const resources = createResources(gl);
+    if (!resources) return null;
+    return new WebGLRenderer(gl, target, resources);
+  }
+
+  resize(width: number, height: number, pixelRatio: number) {
+    this.width = width;
+    this.height = height;
+    this.pixelRatio = pixelRatio;
+    this.gl.canvas.width = Math.round(width * pixelRatio);
+    this.gl.canvas.height = Math.round(height * pixelRatio);
+  }
+
+  render(store: ParticleStore, glow: number, projection: Projection | null) {
+    const resources = this.resources;
+    if (!resources) return;
+    const { uniforms } = resources;
+    const gl = this.gl;
+    gl.viewport(0, 0, gl.canvas.width, gl.canvas.height);
+
+    this.drawTrail(resources);
+
+    const count = store.count;
+    const ornamentCount = this.fillBuffer(store, this.quality.glow, projection);
+    if (count === 0) return;
+
+    gl.useProgram(resources.pointProgram);
+    gl.bindBuffer(gl.ARRAY_BUFFER, resources.pointBuffer);
+    gl.bufferData(gl.ARRAY_BUFFER, this.data.subarray(0, (count + ornamentCount) * FLOATS_PER_PARTICLE), gl.DYNAMIC_DRAW);
+    this.bindPointAttributes(resources);
+    gl.uniform2f(uniforms.resolution, this.width, this.height);
+    gl.uniform1f(uniforms.pixelRatio, this.pixelRatio);
+    gl.uniform1f(uniforms.blur, ORNAMENT_GLOW_BLUR * glow * this.pixelRatio);
+
+    // Body pass: regular "source-over" compositing into a premultiplied buffer
+    gl.uniform1f(uniforms.glow, 0);
+    gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.drawArrays(gl.POINTS, 0, count);
+
+    // Glow pass: ornaments were appended after the main batch
+    if (ornamentCount > 0) {
+      gl.uniform1f(uniforms.glow, 1);
+      gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+      gl.drawArrays(gl.POINTS, count, ornamentCount);
+    }
+  }
+
+  dispose() {
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
+    const resources = this.resources;
+    this.resources = null;
+    if (!resources) return;
+    const gl = this.gl;
+    gl.deleteBuffer(resources.pointBuffer);
+    gl.deleteBuffer(resources.trailBuffer);
+    gl.deleteProgram(resources.pointProgram);
+    gl.deleteProgram(resources.trailProgram);
+  }
+
+  // Without preventDefault the browser never restores the context
+  private handleContextLost = (e: Event) => {
+    e.preventDefault();
+    this.resources = null;
+  };
+
+  // Everything on the old context is gone, the canvas size survives
+  private handleContextRestored = () => {
+    this.resources = createResources(this.gl);
+    if (!this.resources) console.error("Could not rebuild the WebGL renderer after a context loss");
+  };
+
+  private drawTrail({ trailProgram, trailBuffer, uniforms, attributes }: GLResources) {
+    const gl = this.gl;
+    gl.useProgram(trailProgram);
+    gl.bindBuffer(gl.ARRAY_BUFFER, trailBuffer);
+    gl.enableVertexAttribArray(attributes.corner);
+    gl.vertexAttribPointer(attributes.corner, 2, gl.FLOAT, false, 0, 0);
+    const { r, g, b, a } = this.trail;
+    gl.uniform4f(uniforms.color, r / 255, g / 255, b / 255, this.quality.trails ? a : 1);
+    gl.blendFuncSeparate(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA, gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.disableVertexAttribArray(attributes.corner);
+  }
+
+  // Writes all particles, followed by a copy of the ornaments for the glow pass when `withGlow`.
+  // Projected particles are written back to front, the ones it culls fully transparent.
+  private fillBuffer(store: ParticleStore, withGlow: boolean, projection: Projection | null) {
+    const { count, x, y, size, r, g, b, alpha, z, flags } = store;
+    const glowFlag = withGlow ? ORNAMENT : 0;
+    let ornamentCount = 0;
+    for (let i = 0; i < count; i++) {
+      if (flags[i] & glowFlag) ornamentCount++;
+    }
+
+    const needed = (count + ornamentCount) * FLOATS_PER_PARTICLE;
+    if (this.data.length < needed) this.data = new Float32Array(needed * 1.5);
+
+    const data = this.data;
+    let body = 0;
+    let glow = count * FLOATS_PER_PARTICLE;
+    for (let n = 0; n < count; n++) {
+      const i = projection ? projection.order[n] : n;
+      if (projection) {
+        data[body] = projection.x[i];
+        data[body + 1] = projection.y[i];
+        data[body + 2] = size[i] * projection.scale[i];
+        data[body + 6] = alpha[i] * projection.fade[i];
+      } else {
+        data[body] = x[i];
+        data[body + 1] = y[i];
+        data[body + 2] = size[i];
+        data[body + 6] = alpha[i] * depthAlpha(z[i]);
+      }
+      data[body + 3] = r[i] / 255;
+      data[body + 4] = g[i] / 255;
+      data[body + 5] = b[i] / 255;
+      if (flags[i] & glowFlag) {
+        data.copyWithin(glow, body, body + FLOATS_PER_PARTICLE);
+        glow += FLOATS_PER_PARTICLE;
+      }
+      body += FLOATS_PER_PARTICLE;
+    }
+    return ornamentCount;
+  }
+
+  private bindPointAttributes({ attributes }: GLResources) {
+    const gl = this.gl;
+    const attribute = (location: number, size: number, offset: number) => {
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, size, gl.FLOAT, false, STRIDE, offset * Float32Array.BYTES_PER_ELEMENT);
+    };
+    attribute(attributes.position, 2, 0);
+    attribute(attributes.radius, 1, 2);
+    attribute(attributes.color, 4, 3);
+  }
+}
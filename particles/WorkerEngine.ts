@@ -0,0 +1,105 @@
+import { AudioLevels, InteractionMode, LightSettings, ParticleSettings, View3DSettings } from '../types';
+import { EngineStats, ParticleEngine } from './engine';
+import { EngineCommand, EngineReply } from './protocol';
+import { RendererBackend, TrailColor } from './renderer';
+import { LayoutSize } from './layout';
+import { RenderQuality } from './quality';
+import { PointerState } from './simulation';
+
+// Hands the canvas to a worker, which steps the simulation and renders through OffscreenCanvas
+export class WorkerEngine implements ParticleEngine {
+  readonly ready: Promise<RendererBackend>;
+  onStats: ((stats: EngineStats) => void) | null = null;
+  private worker: Worker;
+
+  constructor(canvas: HTMLCanvasElement, backend: RendererBackend | 'auto', settings: ParticleSettings, width: number, height: number, pixelRatio: number, seed: number) {
+    this.worker = new Worker(new URL('./particle.worker.ts', import.meta.url), { type: 'module' });
+    this.ready = new Promise((resolve, reject) => {
+      this.worker.onmessage = ({ data: reply }: MessageEvent<EngineReply>) => {
+        if (reply.type === 'ready') resolve(reply.backend);
+        else if (reply.type === 'stats') this.onStats?.(reply.stats);
+        else reject(new Error(reply.message));
+      };
+      this.worker.onerror = (e) => reject(new Error(e.message || "Particle worker failed to start"));
+    });
+
+    const offscreen = canvas.transferControlToOffscreen();
+    this.post({ type: 'init', canvas: offscreen, backend, settings, width, height, pixelRatio, seed }, [offscreen]);
+  }
+
+  static isSupported() {
+    return typeof Worker !== 'undefined' && typeof HTMLCanvasElement.prototype.transferControlToOffscreen === 'function';
+  }
+
+  setSpecs(specs: Float32Array, frames: number, layout: LayoutSize) {
+    this.post({ type: 'specs', specs, frames, layout }, [specs.buffer]);
+  }
+
+  setSettings(settings: ParticleSettings) {
+    this.post({ type: 'settings', settings });
+  }
+
+  setPointers(pointers: PointerState[]) {
+    this.post({ type: 'pointers', pointers });
+  }
+
+  setInteraction(mode: InteractionMode) {
+    this.post({ type: 'interaction', mode });
+  }
+
+  burst(x: number, y: number) {
+    this.post({ type: 'burst', x, y });
+  }
+
+  setAudioLevels(levels: AudioLevels) {
+    this.post({ type: 'audio', levels });
+  }
+
+  scatter(range: number) {
+    this.post({ type: 'scatter', range });
+  }
+
+  resize(width: number, height: number, pixelRatio: number) {
+    this.post({ type: 'resize', width, height, pixelRatio });
+  }
+
+  setQuality(quality: RenderQuality) {
+    this.post({ type: 'quality', quality });
+  }
+
+  setTrailColor(color: TrailColor) {
+    this.post({ type: 'trail', color });
+  }
+
+  setReducedMotion(reduced: boolean) {
+    this.post({ type: 'motion', reduced });
+  }
+
+  setLights(lights: LightSettings) {
+    this.post({ type: 'lights', lights });
+  }
+
+  setView(view: View3DSettings) {
+    this.post({ type: 'view', view });
+  }
+
+  orbit(dx: number, dy: number) {
+    this.post({ type: 'orbit', dx, dy });
+  }
+
+  zoom(factor: number) {
+    this.post({ type: 'zoom', factor });
+  }
+
+  setPaused(paused: boolean) {
+    this.post({ type: 'paused', paused });
+  }
+
+  dispose() {
+    this.worker.terminate();
+  }
+
+  private post(command: EngineCommand, transfer: Transferable[] = []) {
+    this.worker.postMessage(command, transfer);
+  }
+}
@@ -0,0 +1,315 @@
+import { RGB } from '../types';
+import { ParticleSpec } from './spec';
+import type { SceneGenerator } from './sceneGenerators';
+import { between, bowPoint, inDisc, inShape, onOutline, pick, starPolygon, vary } from './shapes';
+import { treeScene } from './treeScene';
+
+const GOLD: RGB = { r: 255, g: 215, b: 0 };
+const BERRY_RED: RGB = { r: 220, g: 40, b: 40 };
+const SNOW_WHITE: RGB = { r: 240, g: 246, b: 255 };
+const COAL: RGB = { r: 70, g: 70, b: 85 };
+
+const FIREWORK_COLORS: RGB[] = [
+  { r: 255, g: 90, b: 90 },
+  { r: 255, g: 210, b: 80 },
+  { r: 120, g: 220, b: 255 },
+  { r: 190, g: 120, b: 255 },
+  { r: 120, g: 255, b: 160 }
+];
+
+// --- Wreath ---
+const wreath: SceneGenerator = {
+  id: 'wreath',
+  label: 'Wreath',
+  description: "A round wreath of glowing particles dotted with berries and tied with a red bow",
+  generate: ({ width, height }, settings, _options, { foliage, lights }, random) => {
+    const particles: ParticleSpec[] = [];
+    const cx = width / 2;
+    const cy = height / 2;
+    const radius = Math.min(Math.min(width, height) * 0.32, 260);
+    const thickness = radius * 0.3;
+
+    // Two random offsets summed: dense along the middle of the ring, feathery at its edges
+    for (let i = 0; i < 1800; i++) {
+      const angle = random() * Math.PI * 2;
+      const r = radius + (random() + random() - 1) * thickness / 2;
+      particles.push({ x: cx + Math.cos(angle) * r, y: cy + Math.sin(angle) * r, rgb: between(random, foliage), alpha: 0.8 + random() * 0.2, size: settings.size, isOrnament: false });
+    }
+
+    for (let i = 0; i < 90; i++) {
+      const angle = random() * Math.PI * 2;
+      const r = radius + (random() - 0.5) * thickness * 0.6;
+      const rgb = pick(random, lights);
+      // A string of lights once around the ring
+      const light = angle / (Math.PI * 2);
+      particles.push({ x: cx + Math.cos(angle) * r, y: cy + Math.sin(angle) * r, rgb, alpha: 1, size: settings.size * 1.5, isOrnament: true, light });
+    }
+
+    // Bow at the bottom of the ring, with two ribbon tails hanging from its knot
+    const bowY = cy + radius;
+    for (let i = 0; i < 260; i++) {
+      const [x, y] = bowPoint(random, cx, bowY, radius * 0.35);
+      particles.push({ x, y, rgb: vary(random, BERRY_RED, 20), alpha: 1, size: settings.size, isOrnament: false });
+    }
+    for (let i = 0; i < 80; i++) {
+      const side = i % 2 === 0 ? -1 : 1;
+      const t = random();
+      const x = cx + side * t * radius * 0.18 + (random() - 0.5) * 4;
+      const y = bowY + t * radius * 0.35;
+      particles.push({ x, y, rgb: vary(random, BERRY_RED, 20), alpha: 1, size: settings.size, isOrnament: false });
+    }
+
+    return particles;
+  }
+};
+
+// --- Snowman ---
+const snowman: SceneGenerator = {
+  id: 'snowman',
+  label: 'Snowman',
+  description: "A snowman of three white snowballs with a top hat, a red scarf and a carrot nose",
+  generate: ({ width, height }, settings, _options, _palette, random) => {
+    const particles: ParticleSpec[] = [];
+    const cx = width / 2;
+    const base = Math.min(height * 0.16, width * 0.25, 170);
+    const balls = [base, base * 0.72, base * 0.5];
+
+    // Stacked from the bottom up, each ball sinking a little into the one below
+    const centers: number[] = [];
+    let bottom = height * 0.88;
+    balls.forEach(r => {
+      centers.push(bottom - r);
+      bottom -= r * 1.8;
+    });
+
+    const area = balls.reduce((sum, r) => sum + r * r, 0);
+    balls.forEach((r, i) => {
+      const count = Math.round((1700 * r * r) / area);
+      for (let n = 0; n < count; n++) {
+        const [x, y] = inDisc(random, cx, centers[i], r);
+        particles.push({ x, y, rgb: vary(random, SNOW_WHITE, 12), alpha: 0.75 + random() * 0.25, size: settings.size, isOrnament: false });
+      }
+    });
+
+    const [, bodyR, headR] = balls;
+    const [, bodyY, headY] = centers;
+
+    // Scarf where the head meets the body
+    const scarfY = headY + headR * 0.9;
+    for (let i = 0; i < 160; i++) {
+      const x = cx + (random() - 0.5) * headR * 2.1;
+      const y = scarfY + (random() - 0.5) * headR * 0.3;
+      const stripe = Math.floor((x - cx) / (headR * 0.3)) % 2 === 0;
+      particles.push({ x, y, rgb: vary(random, stripe ? BERRY_RED : { r: 40, g: 160, b: 80 }, 15), alpha: 1, size: settings.size, isOrnament: false });
+    }
+
+    // Top hat: a brim and a crown, with a gold band
+    const brimY = headY - headR * 0.85;
+    for (let i = 0; i < 220; i++) {
+      const onBrim = i < 70;
+      const x = cx + (random() - 0.5) * headR * (onBrim ? 1.7 : 1.1);
+      const y = onBrim ? brimY - random() * headR * 0.15 : brimY - headR * 0.15 - random() * headR * 0.9;
+      const isBand = !onBrim && y > brimY - headR * 0.35;
+      particles.push({ x, y, rgb: isBand ? GOLD : vary(random, COAL, 10), alpha: 1, size: settings.size, isOrnament: false });
+    }
+
+    // Face: coal eyes and a carrot nose pointing right
+    [-1, 1].forEach(side => {
+      for (let i = 0; i < 12; i++) {
+        const [x, y] = inDisc(random, cx + side * headR * 0.35, headY - headR * 0.2, headR * 0.1);
+        particles.push({ x, y, rgb: COAL, alpha: 1, size: settings.size, isOrnament: false });
+      }
+    });
+    for (let i = 0; i < 45; i++) {
+      const t = random();
+      const x = cx + t * headR * 0.75;
+      const y = headY + headR * 0.05 + (random() - 0.5) * headR * 0.2 * (1 - t);
+      particles.push({ x, y, rgb: vary(random, { r: 255, g: 140, b: 30 }, 15), alpha: 1, size: settings.size, isOrnament: false });
+    }
+
+    // Buttons down the body
+    [-0.45, 0, 0.45].forEach(offset => {
+      for (let i = 0; i < 6; i++) {
+        const [x, y] = inDisc(random, cx, bodyY + offset * bodyR, bodyR * 0.06);
+        particles.push({ x, y, rgb: BERRY_RED, alpha: 1, size: settings.size * 1.5, isOrnament: true });
+      }
+    });
+
+    return particles;
+  }
+};
+
+// --- Star ---
+const star: SceneGenerator = {
+  id: 'star',
+  label: 'Star',
+  description: "A five-pointed golden star made of glowing particles, with a faint halo around it",
+  generate: ({ width, height }, settings, _options, _palette, random) => {
+    const particles: ParticleSpec[] = [];
+    const cx = width / 2;
+    const cy = height / 2;
+    const outer = Math.min(Math.min(width, height) * 0.33, 280);
+    const inner = outer * 0.45;
+
+    const points = starPolygon(cx, cy, outer, inner);
+
+    // Brighter towards the middle
+    for (let i = 0; i < 1900; i++) {
+      const [x, y] = inShape(random, points);
+      const dist = Math.hypot(x - cx, y - cy) / outer;
+      particles.push({ x, y, rgb: vary(random, { r: 255, g: 215, b: 90 }, 25), alpha: 1 - dist * 0.4, size: settings.size, isOrnament: false });
+    }
+
+    // Sparkles along the outline, strung like lights
+    for (let i = 0; i < 90; i++) {
+      const [x, y, light] = onOutline(random, points);
+      particles.push({ x, y, rgb: { r: 255, g: 250, b: 220 }, alpha: 1, size: settings.size * 1.3, isOrnament: true, light });
+    }
+
+    for (let i = 0; i < 140; i++) {
+      const angle = random() * Math.PI * 2;
+      const r = outer * (1.15 + random() * 0.25);
+      particles.push({ x: cx + Math.cos(angle) * r, y: cy + Math.sin(angle) * r, rgb: { r: 255, g: 240, b: 180 }, alpha: 0.25 + random() * 0.25, size: settings.size * 0.8, isOrnament: false });
+    }
+
+    return particles;
+  }
+};
+
+// --- Heart ---
+const heart: SceneGenerator = {
+  id: 'heart',
+  label: 'Heart',
+  description: "A heart of red and pink particles sprinkled with twinkling lights",
+  generate: ({ width, height }, settings, _options, _palette, random) => {
+    const particles: ParticleSpec[] = [];
+    const cx = width / 2;
+    const cy = height / 2;
+    const scale = Math.min(width * 0.3, height * 0.28, 240);
+
+    // Inside of (x² + y² - 1)³ - x²y³ <= 0, with y pointing up, spans x ±1.14 and y -1 to 1.25
+    const inside = (x: number, y: number) => Math.pow(x * x + y * y - 1, 3) - x * x * y * y * y <= 0;
+
+    let placed = 0;
+    while (placed < 2100) {
+      const x = (random() - 0.5) * 2.4;
+      const y = -1.05 + random() * 2.35;
+      if (!inside(x, y)) continue;
+      placed++;
+
+      const px = cx + x * scale;
+      const py = cy - (y - 0.12) * scale;
+      const isSparkle = placed % 30 === 0;
+      // Deep red at the tip, pink towards the top
+      const t = (y + 1.05) / 2.35;
+      const rgb = isSparkle
+        ? { r: 255, g: 230, b: 240 }
+        : vary(random, { r: 220 + 35 * t, g: 30 + 110 * t, b: 60 + 100 * t }, 15);
+      particles.push({
+        x: px,
+        y: py,
+        rgb,
+        alpha: isSparkle ? 1 : 0.8 + random() * 0.2,
+        size: isSparkle ? settings.size * 1.4 : settings.size,
+        isOrnament: isSparkle,
+        light: isSparkle ? random() : undefined
+      });
+    }
+
+    return particles;
+  }
+};
+
+// --- Gift box ---
+const gift: SceneGenerator = {
+  id: 'gift',
+  label: 'Gift',
+  description: "A red gift box wrapped in a golden ribbon and bow",
+  generate: ({ width, height }, settings, _options, _palette, random) => {
+    const particles: ParticleSpec[] = [];
+    const cx = width / 2;
+    const boxWidth = Math.min(width * 0.5, height * 0.45, 380);
+    const boxHeight = boxWidth * 0.75;
+    const lidWidth = boxWidth * 1.08;
+    const lidHeight = boxHeight * 0.18;
+    const ribbon = boxWidth * 0.12;
+
+    const boxTop = height / 2 - boxHeight / 2 + boxWidth * 0.15;
+    const boxMiddle = boxTop + boxHeight / 2;
+    const lidTop = boxTop - lidHeight;
+
+    // Area-proportional split between the box and its slightly wider lid
+    const lidShare = (lidWidth * lidHeight) / (lidWidth * lidHeight + boxWidth * boxHeight);
+    for (let i = 0; i < 2000; i++) {
+      const onLid = random() < lidShare;
+      const w = onLid ? lidWidth : boxWidth;
+      const x = cx + (random() - 0.5) * w;
+      const y = onLid ? lidTop + random() * lidHeight : boxTop + random() * boxHeight;
+      const isRibbon = Math.abs(x - cx) < ribbon / 2 || (!onLid && Math.abs(y - boxMiddle) < ribbon / 2);
+      const rgb = isRibbon
+        ? vary(random, GOLD, 20)
+        : vary(random, onLid ? { r: 225, g: 50, b: 60 } : { r: 190, g: 30, b: 45 }, 20);
+      particles.push({ x, y, rgb, alpha: 0.85 + random() * 0.15, size: settings.size, isOrnament: false });
+    }
+
+    for (let i = 0; i < 320; i++) {
+      const [x, y] = bowPoint(random, cx, lidTop - boxWidth * 0.07, boxWidth * 0.28);
+      particles.push({ x, y, rgb: vary(random, GOLD, 20), alpha: 1, size: settings.size, isOrnament: false });
+    }
+
+    // A few glints on the wrapping
+    for (let i = 0; i < 40; i++) {
+      const x = cx + (random() - 0.5) * boxWidth;
+      const y = boxTop + random() * boxHeight;
+      particles.push({ x, y, rgb: { r: 255, g: 245, b: 220 }, alpha: 1, size: settings.size * 1.3, isOrnament: true, light: random() });
+    }
+
+    return particles;
+  }
+};
+
+// --- Fireworks ---
+const fireworks: SceneGenerator = {
+  id: 'fireworks',
+  label: 'Fireworks',
+  description: "Colorful fireworks bursting across the night sky",
+  generate: ({ width, height }, settings, _options, _palette, random) => {
+    const particles: ParticleSpec[] = [];
+    const bursts = width > height ? 5 : 4;
+    const rays = 24;
+
+    for (let b = 0; b < bursts; b++) {
+      // Spread across the sky, alternating high and low so neighbours don't overlap much
+      const bx = width * (b + 0.5 + (random() - 0.5) * 0.4) / bursts;
+      const by = height * (b % 2 === 0 ? 0.3 : 0.5) + (random() - 0.5) * height * 0.1;
+      const radius = Math.min(width, height) * (0.12 + random() * 0.06);
+      const color = pick(random, FIREWORK_COLORS);
+      const twist = random() * Math.PI * 2;
+
+      for (let i = 0; i < 380; i++) {
+        const ray = Math.floor(random() * rays);
+        const angle = twist + (ray / rays) * Math.PI * 2 + (random() - 0.5) * 0.05;
+        const dist = radius * Math.pow(random(), 0.6);
+        const isTip = dist > radius * 0.93;
+        particles.push({
+          x: bx + Math.cos(angle) * dist,
+          y: by + Math.sin(angle) * dist,
+          rgb: isTip ? { r: 255, g: 250, b: 235 } : vary(random, color, 25),
+          alpha: 0.35 + 0.65 * (dist / radius),
+          size: isTip ? settings.size * 1.3 : settings.size,
+          isOrnament: isTip
+        });
+      }
+
+      // Fading trail of the rocket that carried it up
+      for (let i = 0; i < 30; i++) {
+        const t = random();
+        particles.push({ x: bx + (random() - 0.5) * 3, y: by + radius * 0.3 + t * (height - by - radius * 0.3), rgb: vary(random, color, 20), alpha: 0.35 * (1 - t), size: settings.size * 0.8, isOrnament: false });
+      }
+    }
+
+    return particles;
+  }
+};
+
+export const BUILTIN_SCENES: SceneGenerator[] = [treeScene, wreath, snowman, star, heart, gift, fireworks];
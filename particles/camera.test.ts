@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ParticleStore } from './ParticleStore';
+import { OrbitCamera } from './camera';
+
+const WIDTH = 400;
+const HEIGHT = 400;
+
+// Particles at [x, y, depth]
+const storeOf = (points: [number, number, number][]) => {
+  const store = new ParticleStore(points.length);
+  points.forEach(([x, y, z], i) => {
+    store.x[i] = x;
+    store.y[i] = y;
+    store.wz[i] = z;
+  });
+  store.count = points.length;
+  return store;
+};
+
+describe('OrbitCamera', () => {
+  it('shows the flat scene unchanged before it is turned', () => {
+    const projection = new OrbitCamera().project(storeOf([[120, 80, 0], [300, 350, 0]]), WIDTH, HEIGHT);
+    expect(projection.x[0]).toBeCloseTo(120);
+    expect(projection.y[0]).toBeCloseTo(80);
+    expect(projection.x[1]).toBeCloseTo(300);
+    expect(projection.scale[1]).toBeCloseTo(1);
+    expect(projection.fade[1]).toBeCloseTo(1);
+  });
+
+  it('draws far particles first, smaller and fogged', () => {
+    const projection = new OrbitCamera().project(storeOf([[200, 200, -100], [200, 200, 150], [200, 200, 0]]), WIDTH, HEIGHT);
+    expect(Array.from(projection.order.subarray(0, 3))).toEqual([1, 2, 0]);
+    expect(projection.scale[1]).toBeLessThan(1);
+    expect(projection.scale[0]).toBeGreaterThan(1);
+    expect(projection.fade[1]).toBeLessThan(1);
+    expect(projection.fade[0]).toBe(1);
+  });
+
+  it('brings the side of the scene round to the front when orbiting', () => {
+    const camera = new OrbitCamera();
+    // A quarter turn
+    camera.orbit(Math.PI / 2 / 0.008, 0);
+    const projection = camera.project(storeOf([[300, 200, 0], [200, 200, 100]]), WIDTH, HEIGHT);
+    // The particle right of the middle now lies on the axis, the one behind it swings out to the left
+    expect(projection.x[0]).toBeCloseTo(200);
+    expect(projection.x[1]).toBeLessThan(200);
+  });
+
+  it('pauses auto-rotation while the viewer steers', () => {
+    const camera = new OrbitCamera();
+    camera.autoRotate = true;
+    camera.tick();
+    expect(camera.yaw).toBeGreaterThan(0);
+
+    camera.orbit(10, 0);
+    const steered = camera.yaw;
+    camera.tick();
+    expect(camera.yaw).toBe(steered);
+  });
+
+  it('keeps zoom within its limits', () => {
+    const camera = new OrbitCamera();
+    camera.zoomBy(100);
+    expect(camera.zoom).toBe(3);
+    camera.zoomBy(0.001);
+    expect(camera.zoom).toBe(0.5);
+  });
+});
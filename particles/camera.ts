@@ -0,0 +1,128 @@
+import { ParticleStore } from './ParticleStore';
+import { TICK_RATE } from './clock';
+
+// Radians turned per pixel dragged
+const ORBIT_SPEED = 0.008;
+// Looking further over or under the scene than this turns it into a thin line
+const MAX_PITCH = 1.2;
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
+// One turn every 40 seconds, resuming a few seconds after the last drag
+const AUTO_ROTATE_SPEED = (Math.PI * 2) / (40 * TICK_RATE);
+const AUTO_ROTATE_PAUSE = 3 * TICK_RATE;
+// Focal length as a share of the larger screen side: long enough that the unturned
+// scene looks like the flat one, short enough for some perspective when turned
+const FOCAL_SHARE = 1.2;
+// Particles this close to the camera (as a share of the focal length) or behind it aren't drawn
+const NEAR_SHARE = 0.1;
+// Share of its brightness the back of the scene loses in the fog
+const FOG_DENSITY = 0.7;
+
+/**
+ * Where each particle lands on screen this frame, indexed like the store. `order` lists the
+ * particles back to front, which is the order to draw them in.
+ */
+export interface Projection {
+  count: number;
+  order: Uint32Array;
+  x: Float32Array;
+  y: Float32Array;
+  // Multiplies the particle's size
+  scale: Float32Array;
+  // Multiplies the particle's alpha, 0 for particles that aren't drawn
+  fade: Float32Array;
+}
+
+const createProjection = (capacity: number): Projection => ({
+  count: 0,
+  order: new Uint32Array(capacity),
+  x: new Float32Array(capacity),
+  y: new Float32Array(capacity),
+  scale: new Float32Array(capacity),
+  fade: new Float32Array(capacity)
+});
+
+/**
+ * The 3D view's camera: it circles the middle of the screen (yaw), looks over or under the
+ * scene (pitch) and moves closer or further away (zoom). Unturned at zoom 1, particles at
+ * depth 0 land exactly where the flat view draws them.
+ */
+export class OrbitCamera {
+  yaw = 0;
+  pitch = 0;
+  zoom = 1;
+  autoRotate = false;
+  private rotateAfter = 0;
+  private projection = createProjection(0);
+  private depths = new Float32Array(0);
+
+  // A drag of (dx, dy) pixels. Auto-rotation waits while the viewer steers.
+  orbit(dx: number, dy: number) {
+    this.yaw += dx * ORBIT_SPEED;
+    this.pitch = Math.max(-MAX_PITCH, Math.min(MAX_PITCH, this.pitch - dy * ORBIT_SPEED));
+    this.rotateAfter = AUTO_ROTATE_PAUSE;
+  }
+
+  // Above 1 moves closer
+  zoomBy(factor: number) {
+    if (!(factor > 0)) return;
+    this.zoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, this.zoom * factor));
+  }
+
+  tick() {
+    if (this.rotateAfter > 0) this.rotateAfter--;
+    else if (this.autoRotate) this.yaw += AUTO_ROTATE_SPEED;
+  }
+
+  project(store: ParticleStore, width: number, height: number): Projection {
+    const { count, x, y, wz } = store;
+    if (this.projection.order.length < count) {
+      this.projection = createProjection(Math.ceil(count * 1.5));
+      this.depths = new Float32Array(this.projection.order.length);
+    }
+    const projection = this.projection;
+    const depths = this.depths;
+
+    const cx = width / 2;
+    const cy = height / 2;
+    const focal = Math.max(width, height) * FOCAL_SHARE;
+    const distance = focal / this.zoom;
+    const near = focal * NEAR_SHARE;
+    // Scenes reach about half the screen's larger side behind the screen plane
+    const radius = Math.max(width, height) / 2;
+    const cosYaw = Math.cos(this.yaw);
+    const sinYaw = Math.sin(this.yaw);
+    const cosPitch = Math.cos(this.pitch);
+    const sinPitch = Math.sin(this.pitch);
+
+    for (let i = 0; i < count; i++) {
+      const px = x[i] - cx;
+      const py = y[i] - cy;
+      const pz = wz[i];
+      // Yaw turns around the vertical axis, then pitch tips the scene towards or away from the viewer
+      const turnedX = px * cosYaw - pz * sinYaw;
+      const turnedZ = px * sinYaw + pz * cosYaw;
+      const tippedY = py * cosPitch - turnedZ * sinPitch;
+      const depth = py * sinPitch + turnedZ * cosPitch;
+      depths[i] = depth;
+      projection.order[i] = i;
+
+      const fromCamera = distance + depth;
+      if (fromCamera < near) {
+        projection.scale[i] = 0;
+        projection.fade[i] = 0;
+        continue;
+      }
+      const scale = focal / fromCamera;
+      projection.x[i] = cx + turnedX * scale;
+      projection.y[i] = cy + tippedY * scale;
+      projection.scale[i] = scale;
+      // Fog starts at the screen plane, the near half stays clear
+      projection.fade[i] = 1 - FOG_DENSITY * Math.min(1, Math.max(0, depth / radius));
+    }
+
+    projection.count = count;
+    projection.order.subarray(0, count).sort((a, b) => depths[b] - depths[a]);
+    return projection;
+  }
+}
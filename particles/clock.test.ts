@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { FixedStepClock, TICK_RATE } from './clock';
+
+// Ticks run over one second of frames at `hz`
+const ticksPerSecond = (hz: number) => {
+  const clock = new FixedStepClock();
+  let ticks = 0;
+  // The first frame only starts the clock
+  clock.advance(0);
+  for (let frame = 1; frame <= hz; frame++) ticks += clock.advance((frame * 1000) / hz);
+  return ticks;
+};
+
+describe('FixedStepClock', () => {
+  it('runs the same number of ticks per second at any refresh rate', () => {
+    [30, 60, 75, 120, 144].forEach(hz => expect(Math.abs(ticksPerSecond(hz) - TICK_RATE)).toBeLessThanOrEqual(1));
+  });
+
+  it('steps every other frame at 120 Hz and twice per frame at 30 Hz', () => {
+    const fast = new FixedStepClock();
+    fast.advance(0);
+    expect([1, 2, 3, 4].map(frame => fast.advance((frame * 1000) / 120))).toEqual([0, 1, 0, 1]);
+
+    const slow = new FixedStepClock();
+    slow.advance(0);
+    expect(slow.advance(1000 / 30)).toBe(2);
+  });
+
+  it('skips ahead after a stall instead of catching up', () => {
+    const clock = new FixedStepClock();
+    clock.advance(0);
+    expect(clock.advance(5000)).toBe(4);
+    expect(clock.advance(5000 + 1000 / 60)).toBe(1);
+  });
+
+  it('does not count time spent paused', () => {
+    const clock = new FixedStepClock();
+    clock.advance(0);
+    clock.reset();
+    expect(clock.advance(10000)).toBe(1);
+    expect(clock.advance(10000 + 1000 / 60)).toBe(1);
+  });
+});
@@ -0,0 +1,39 @@
+// Simulation ticks per second. One step() is one tick, whatever the display's refresh rate.
+export const TICK_RATE = 60;
+const TICK_MS = 1000 / TICK_RATE;
+// After a stall (a slow frame, a debugger) the simulation skips ahead instead of racing to catch up
+const MAX_TICKS_PER_FRAME = 4;
+const TICK_TOLERANCE = 1e-6;
+
+/**
+ * Turns real frame times into whole simulation ticks: a 120 Hz display steps every other
+ * frame, a 30 Hz one twice per frame, so the animation keeps the same pace everywhere.
+ * Leftover time carries over to the next frame.
+ */
+export class FixedStepClock {
+  private last: number | null = null;
+  private pending = 0;
+
+  // Ticks to run for a frame drawn at `now` (milliseconds)
+  advance(now: number) {
+    if (this.last === null) {
+      // The first frame after starting runs one tick, there's no frame time to measure yet
+      this.last = now;
+      return 1;
+    }
+    this.pending += Math.max(0, now - this.last);
+    this.last = now;
+    // Frame timestamps don't add up exactly, a frame a hair short of a tick still counts as one
+    const ticks = Math.floor(this.pending / TICK_MS + TICK_TOLERANCE);
+    this.pending -= ticks * TICK_MS;
+    if (ticks <= MAX_TICKS_PER_FRAME) return ticks;
+    this.pending = 0;
+    return MAX_TICKS_PER_FRAME;
+  }
+
+  // Time spent paused isn't owed to the simulation
+  reset() {
+    this.last = null;
+    this.pending = 0;
+  }
+}
@@ -0,0 +1,18 @@
+import { ParticleSettings } from '../types';
+import { MainThreadEngine } from './MainThreadEngine';
+import { WorkerEngine } from './WorkerEngine';
+import { ParticleEngine } from './engine';
+import { RendererBackend } from './renderer';
+
+// Prefers the worker when the browser can render from one. The canvas is handed over for good,
+// so a failed engine needs a fresh canvas before trying the next option.
+export const createEngine = (
+  canvas: HTMLCanvasElement,
+  options: { backend: RendererBackend | 'auto'; offThread: boolean; settings: ParticleSettings; width: number; height: number; pixelRatio: number; seed: number }
+): ParticleEngine => {
+  const { backend, offThread, settings, width, height, pixelRatio, seed } = options;
+  if (offThread && WorkerEngine.isSupported()) {
+    return new WorkerEngine(canvas, backend, settings, width, height, pixelRatio, seed);
+  }
+  return new MainThreadEngine(canvas, backend, settings, width, height, pixelRatio, seed);
+};
@@ -0,0 +1,13 @@
+import { Canvas2DRenderer } from './Canvas2DRenderer';
+import { WebGLRenderer } from './WebGLRenderer';
+import { ParticleRenderer, RenderTarget, RendererBackend } from './renderer';
+
+// Tries the preferred backend first and falls back to Canvas2D when WebGL is unavailable
+export const createRenderer = (canvas: RenderTarget, preferred: RendererBackend | 'auto' = 'auto'): ParticleRenderer | null => {
+  if (preferred !== 'canvas2d') {
+    const webgl = WebGLRenderer.create(canvas);
+    if (webgl) return webgl;
+    console.warn("WebGL unavailable, falling back to Canvas2D");
+  }
+  return Canvas2DRenderer.create(canvas);
+};
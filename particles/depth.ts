@@ -0,0 +1,16 @@
+import { ParticleSpec } from './spec';
+import { LayoutSize } from './layout';
+import { Random } from './random';
+
+// Thickness given to flat scenes in the 3D view, as a share of the screen's smaller side
+const SLAB_SHARE = 0.06;
+// Depth between a photo's darkest and brightest particles, as a share of the smaller side
+const RELIEF_SHARE = 0.3;
+
+// Flat scenes turned in the 3D view would vanish edge-on, a little depth makes them a slab
+export const withThickness = (specs: ParticleSpec[], { width, height }: LayoutSize, random: Random): ParticleSpec[] => {
+  const thickness = Math.min(width, height) * SLAB_SHARE;
+  return specs.map(spec => (spec.z === undefined ? { ...spec, z: (random() - 0.5) * thickness } : spec));
+};
+
+export const photoRelief = ({ width, height }: LayoutSize) => Math.min(width, height) * RELIEF_SHARE;
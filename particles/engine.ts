@@ -0,0 +1,49 @@
+import { AudioLevels, InteractionMode, LightSettings, ParticleSettings, View3DSettings } from '../types';
+import { RendererBackend, TrailColor } from './renderer';
+import { LayoutSize } from './layout';
+import { RenderQuality } from './quality';
+import { PointerState } from './simulation';
+
+// Measured over the last half second or so
+export interface EngineStats {
+  fps: number;
+  particles: number;
+}
+
+// Runs the simulation and renderer for one canvas, on the main thread or in a worker.
+// Every call is fire-and-forget so both kinds can be driven the same way. Engines are
+// created with a seed for everything random in the simulation (see random.ts).
+export interface ParticleEngine {
+  // Resolves with the backend actually in use, rejects when nothing could draw on the canvas
+  readonly ready: Promise<RendererBackend>;
+  // Morphs onto packed specs (see packSpecs) laid out for a canvas of `layout` size, refitted when
+  // the canvas has been resized since. The buffer may be transferred, don't reuse it.
+  setSpecs(specs: Float32Array, frames: number, layout: LayoutSize): void;
+  setSettings(settings: ParticleSettings): void;
+  // Every active touch or mouse, an empty list when none is over the canvas
+  setPointers(pointers: PointerState[]): void;
+  setInteraction(mode: InteractionMode): void;
+  burst(x: number, y: number): void;
+  // Music energy, sent every frame while a track plays
+  setAudioLevels(levels: AudioLevels): void;
+  scatter(range: number): void;
+  // Keeps the current formation, refitted to the new size. `pixelRatio` is device pixels per CSS pixel.
+  resize(width: number, height: number, pixelRatio: number): void;
+  setQuality(quality: RenderQuality): void;
+  // Background and trail fade behind the particles
+  setTrailColor(color: TrailColor): void;
+  // prefers-reduced-motion: no breathing, parallax, pointer forces or flying morphs
+  setReducedMotion(reduced: boolean): void;
+  // How the string lights animate
+  setLights(lights: LightSettings): void;
+  // Flat or 3D view. In 3D, orbit and zoom steer the camera: a drag of (dx, dy) pixels
+  // turns it, a zoom factor above 1 moves it closer.
+  setView(view: View3DSettings): void;
+  orbit(dx: number, dy: number): void;
+  zoom(factor: number): void;
+  // Stops the frame loop, e.g. while the canvas is covered or the tab is in the background
+  setPaused(paused: boolean): void;
+  // Called a couple of times per second while running
+  onStats: ((stats: EngineStats) => void) | null;
+  dispose(): void;
+}
@@ -0,0 +1,25 @@
+export interface LayoutSize {
+  width: number;
+  height: number;
+}
+
+// Maps a point laid out for one canvas size onto another: p' = p * scale + offset
+export interface LayoutTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * Fits a formation laid out for `from` into `to`: uniformly scaled so it still fits, and
+ * centered. Always derived from the original layout size, so rotating a phone back and
+ * forth returns every particle to exactly where it started.
+ */
+export const fitTransform = (from: LayoutSize, to: LayoutSize): LayoutTransform => {
+  const scale = Math.min(to.width / from.width, to.height / from.height);
+  return {
+    scale,
+    offsetX: to.width / 2 - (from.width / 2) * scale,
+    offsetY: to.height / 2 - (from.height / 2) * scale
+  };
+};
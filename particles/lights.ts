@@ -0,0 +1,48 @@
+import { LightSettings } from '../types';
+import { LIGHT, ParticleStore } from './ParticleStore';
+
+// Dimmest a light gets while twinkling, chasing or fading, so the strings never go fully dark
+const MIN_GLOW = 0.2;
+// Pulses running along a string at once during a chase
+const CHASE_PULSES = 6;
+
+const channel = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+/**
+ * Animates the string lights (particles with the LIGHT flag) for this frame. step() has just
+ * copied every particle's resting look into r, g, b and alpha, this only changes the lights
+ * on top of that. `time` counts simulation ticks, so the pace is the same at any refresh rate.
+ */
+export const applyLightProgram = (s: ParticleStore, { program, speed }: LightSettings, time: number) => {
+  if (program === 'steady') return;
+  const { flags, phase, lightPos, r, g, b, alpha } = s;
+  const t = time * speed;
+  // Every light breathes in step, once per five seconds or so at speed 1
+  const fade = MIN_GLOW + (1 - MIN_GLOW) * (0.5 + 0.5 * Math.sin(t * 0.02));
+
+  for (let i = 0; i < s.count; i++) {
+    if (!(flags[i] & LIGHT)) continue;
+
+    if (program === 'twinkle') {
+      // Two unrelated waves per light: mostly lit, dipping now and then at its own moments
+      const flicker = Math.sin(t * 0.05 + phase[i] * 11) * Math.sin(t * 0.031 + phase[i] * 5);
+      alpha[i] *= 1 - (1 - MIN_GLOW) * Math.max(0, flicker);
+    } else if (program === 'chase') {
+      const wave = 0.5 + 0.5 * Math.cos(Math.PI * 2 * (lightPos[i] * CHASE_PULSES - t * 0.01));
+      alpha[i] *= MIN_GLOW + (1 - MIN_GLOW) * wave * wave * wave;
+    } else if (program === 'fade') {
+      alpha[i] *= fade;
+    } else {
+      // Color cycle: hue rotation (the CSS hue-rotate matrix), shifted along the string
+      const angle = t * 0.02 + lightPos[i] * Math.PI * 2;
+      const c = Math.cos(angle);
+      const sn = Math.sin(angle);
+      const red = r[i];
+      const green = g[i];
+      const blue = b[i];
+      r[i] = channel(red * (0.213 + 0.787 * c - 0.213 * sn) + green * (0.715 - 0.715 * c - 0.715 * sn) + blue * (0.072 - 0.072 * c + 0.928 * sn));
+      g[i] = channel(red * (0.213 - 0.213 * c + 0.143 * sn) + green * (0.715 + 0.285 * c + 0.14 * sn) + blue * (0.072 - 0.072 * c - 0.283 * sn));
+      b[i] = channel(red * (0.213 - 0.213 * c - 0.787 * sn) + green * (0.715 - 0.715 * c + 0.715 * sn) + blue * (0.072 + 0.928 * c + 0.072 * sn));
+    }
+  }
+};
@@ -0,0 +1,98 @@
+import { FixedStepClock } from './clock';
+import { EngineStats } from './engine';
+import { RenderQuality } from './quality';
+import { ParticleRenderer, TrailColor } from './renderer';
+import { ParticleSimulation } from './simulation';
+
+// How often frame rate and particle count are reported
+const STATS_INTERVAL_MS = 500;
+
+// Workers only get requestAnimationFrame in browsers that support OffscreenCanvas rendering
+const scheduleFrame = (callback: () => void): (() => void) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  }
+  const id = setTimeout(callback, 1000 / 60);
+  return () => clearTimeout(id);
+};
+
+// Steps the simulation at its fixed tick rate and draws it once per frame, on whichever
+// thread owns the canvas
+export class ParticleLoop {
+  private cancelFrame: (() => void) | null = null;
+  private paused = false;
+  private frames = 0;
+  private statsSince = 0;
+  private clock = new FixedStepClock();
+
+  constructor(
+    private renderer: ParticleRenderer,
+    readonly simulation: ParticleSimulation,
+    pixelRatio: number,
+    private onStats: (stats: EngineStats) => void
+  ) {
+    this.resize(simulation.width, simulation.height, pixelRatio);
+  }
+
+  get backend() {
+    return this.renderer.backend;
+  }
+
+  resize(width: number, height: number, pixelRatio: number) {
+    this.renderer.resize(width, height, pixelRatio);
+    this.simulation.resize(width, height);
+  }
+
+  setQuality(quality: RenderQuality) {
+    this.renderer.quality = quality;
+  }
+
+  setTrailColor(color: TrailColor) {
+    this.renderer.trail = color;
+  }
+
+  start() {
+    // Time spent paused is not a slow frame
+    this.frames = 0;
+    this.statsSince = performance.now();
+    this.clock.reset();
+
+    const frame = () => {
+      const ticks = this.clock.advance(performance.now());
+      for (let i = 0; i < ticks; i++) this.simulation.step();
+      this.renderer.render(this.simulation.store, this.simulation.glow, this.simulation.project());
+      this.countFrame();
+      this.cancelFrame = scheduleFrame(frame);
+    };
+    this.cancelFrame = scheduleFrame(frame);
+  }
+
+  // Stops stepping and drawing altogether, the last frame stays on the canvas
+  setPaused(paused: boolean) {
+    if (paused === this.paused) return;
+    this.paused = paused;
+    if (paused) {
+      this.cancelFrame?.();
+      this.cancelFrame = null;
+    } else {
+      this.start();
+    }
+  }
+
+  private countFrame() {
+    this.frames++;
+    const now = performance.now();
+    const elapsed = now - this.statsSince;
+    if (elapsed < STATS_INTERVAL_MS) return;
+    this.onStats({ fps: (this.frames * 1000) / elapsed, particles: this.simulation.store.count });
+    this.frames = 0;
+    this.statsSince = now;
+  }
+
+  dispose() {
+    this.cancelFrame?.();
+    this.cancelFrame = null;
+    this.renderer.dispose();
+  }
+}
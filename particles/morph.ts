@@ -0,0 +1,232 @@
+import { LIGHT, ORNAMENT, ParticleStore, SPEC_STRIDE } from './ParticleStore';
+import { Random } from './random';
+
+// Resolution of the Hilbert curve grid (2^10 cells per side)
+const HILBERT_SIDE = 1 << 10;
+
+// Distance along a Hilbert curve: points close on the curve are close on screen,
+// so sorting two point sets by it and pairing by rank gives a cheap spatial matching.
+const hilbertIndex = (x: number, y: number) => {
+  let index = 0;
+  for (let s = HILBERT_SIDE >> 1; s > 0; s >>= 1) {
+    const rx = (x & s) > 0 ? 1 : 0;
+    const ry = (y & s) > 0 ? 1 : 0;
+    index += s * s * ((3 * rx) ^ ry);
+    // Rotate the quadrant so the curve stays continuous
+    if (ry === 0) {
+      if (rx === 1) {
+        x = HILBERT_SIDE - 1 - x;
+        y = HILBERT_SIDE - 1 - y;
+      }
+      const t = x;
+      x = y;
+      y = t;
+    }
+  }
+  return index;
+};
+
+// Returns the indices 0..count-1 ordered along the curve
+const sortAlongCurve = (count: number, xAt: (i: number) => number, yAt: (i: number) => number, extent: number) => {
+  const keys = new Float64Array(count);
+  const scale = (HILBERT_SIDE - 1) / Math.max(1, extent);
+  for (let i = 0; i < count; i++) {
+    const cx = Math.min(HILBERT_SIDE - 1, Math.max(0, Math.round(xAt(i) * scale)));
+    const cy = Math.min(HILBERT_SIDE - 1, Math.max(0, Math.round(yAt(i) * scale)));
+    keys[i] = hilbertIndex(cx, cy);
+  }
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+  return order.sort((a, b) => keys[a] - keys[b]);
+};
+
+// Flags of the packed spec at offset `o`
+const specFlags = (specs: Float32Array, o: number) =>
+  (specs[o + 7] > 0 ? ORNAMENT : 0) | (specs[o + 8] >= 0 ? LIGHT : 0);
+
+// Starts particle `i` flying towards spec `s` while blending into its look
+const morphTo = (store: ParticleStore, i: number, specs: Float32Array, s: number, frames: number) => {
+  const o = s * SPEC_STRIDE;
+  store.fromX[i] = store.originX[i];
+  store.fromY[i] = store.originY[i];
+  store.fromZ[i] = store.originZ[i];
+  store.fromR[i] = store.baseR[i];
+  store.fromG[i] = store.baseG[i];
+  store.fromB[i] = store.baseB[i];
+  store.fromAlpha[i] = store.baseAlpha[i];
+  store.fromSize[i] = store.baseSize[i];
+  store.toX[i] = specs[o];
+  store.toY[i] = specs[o + 1];
+  store.toZ[i] = specs[o + 9];
+  store.toR[i] = specs[o + 2];
+  store.toG[i] = specs[o + 3];
+  store.toB[i] = specs[o + 4];
+  store.toAlpha[i] = specs[o + 5];
+  store.toSize[i] = specs[o + 6];
+  store.toFlags[i] = specFlags(specs, o);
+  if (specs[o + 8] >= 0) store.lightPos[i] = specs[o + 8];
+  store.morphFrame[i] = 0;
+  store.morphFrames[i] = Math.max(1, frames);
+};
+
+// Surplus particles stay where they are and fade away
+const fadeOut = (store: ParticleStore, i: number, frames: number) => {
+  store.fromX[i] = store.toX[i] = store.originX[i];
+  store.fromY[i] = store.toY[i] = store.originY[i];
+  store.fromZ[i] = store.toZ[i] = store.originZ[i];
+  store.fromR[i] = store.toR[i] = store.baseR[i];
+  store.fromG[i] = store.toG[i] = store.baseG[i];
+  store.fromB[i] = store.toB[i] = store.baseB[i];
+  store.fromAlpha[i] = store.baseAlpha[i];
+  store.toAlpha[i] = 0;
+  store.fromSize[i] = store.toSize[i] = store.baseSize[i];
+  store.toFlags[i] = store.flags[i] & (ORNAMENT | LIGHT);
+  store.morphFrame[i] = 0;
+  store.morphFrames[i] = Math.max(1, frames);
+};
+
+/**
+ * Fresh particles for a first load: each starts a little way off its home.
+ * Spawning close to the target keeps them from building up enough velocity to overshoot.
+ * `scatterShare` is that distance as a share of the smaller side, 0 places them at home.
+ */
+export const spawnParticles = (specs: Float32Array, width: number, height: number, random: Random, scatterShare = 0.15) => {
+  const count = specs.length / SPEC_STRIDE;
+  const store = new ParticleStore(count);
+  const scatterRange = Math.min(width, height) * scatterShare;
+
+  for (let i = 0; i < count; i++) {
+    const o = i * SPEC_STRIDE;
+    store.originX[i] = specs[o];
+    store.originY[i] = specs[o + 1];
+    store.originZ[i] = store.wz[i] = specs[o + 9];
+    store.z[i] = (random() - 0.5) * 2;
+    store.x[i] = specs[o] + (random() - 0.5) * scatterRange;
+    store.y[i] = specs[o + 1] + (random() - 0.5) * scatterRange;
+    store.baseR[i] = store.r[i] = specs[o + 2];
+    store.baseG[i] = store.g[i] = specs[o + 3];
+    store.baseB[i] = store.b[i] = specs[o + 4];
+    store.baseAlpha[i] = store.alpha[i] = specs[o + 5];
+    store.baseSize[i] = store.size[i] = specs[o + 6];
+    store.flags[i] = specFlags(specs, o);
+    store.lightPos[i] = Math.max(0, specs[o + 8]);
+    store.phase[i] = random() * Math.PI * 2;
+  }
+  store.count = count;
+  return store;
+};
+
+/**
+ * Moves an existing particle set onto a new formation instead of rebuilding it.
+ * Both sets are ordered along a Hilbert curve and paired by rank (O(n log n)), so each
+ * particle travels to a nearby target. Surplus particles fade out, missing ones are
+ * spawned from the particle serving the neighbouring target.
+ */
+export const morphParticles = (
+  current: ParticleStore,
+  specs: Float32Array,
+  frames: number,
+  width: number,
+  height: number,
+  random: Random
+): ParticleStore => {
+  const living: number[] = [];
+  const fading: number[] = [];
+  for (let i = 0; i < current.count; i++) {
+    (current.isFadingOut(i) ? fading : living).push(i);
+  }
+
+  if (frames <= 0 || living.length === 0) {
+    return spawnParticles(specs, width, height, random);
+  }
+
+  const n = living.length;
+  const m = specs.length / SPEC_STRIDE;
+  const extent = Math.max(width, height);
+  const fromOrder = sortAlongCurve(n, i => current.x[living[i]], i => current.y[living[i]], extent);
+  const toOrder = sortAlongCurve(m, i => specs[i * SPEC_STRIDE], i => specs[i * SPEC_STRIDE + 1], extent);
+
+  const next = new ParticleStore(Math.max(n, m) + fading.length);
+  let count = 0;
+
+  if (n >= m) {
+    // Every target gets an evenly spread particle, the rest fade away
+    const used = new Uint8Array(n);
+    for (let j = 0; j < m; j++) {
+      const i = Math.floor((j * n) / m);
+      used[i] = 1;
+      current.copyTo(living[fromOrder[i]], next, count);
+      morphTo(next, count++, specs, toOrder[j], frames);
+    }
+    for (let i = 0; i < n; i++) {
+      if (used[i]) continue;
+      current.copyTo(living[fromOrder[i]], next, count);
+      fadeOut(next, count++, frames);
+    }
+  } else {
+    // Every particle gets a target, the gaps are filled from the particle just before them
+    const assigned = new Uint8Array(m);
+    for (let i = 0; i < n; i++) {
+      const j = Math.floor((i * m) / n);
+      assigned[j] = 1;
+      current.copyTo(living[fromOrder[i]], next, count);
+      morphTo(next, count++, specs, toOrder[j], frames);
+    }
+    for (let j = 0; j < m; j++) {
+      if (assigned[j]) continue;
+      // A newcomer starts invisible on top of an existing particle and flies out with it
+      const source = living[fromOrder[Math.min(n - 1, Math.floor((j * n) / m))]];
+      current.copyTo(source, next, count);
+      next.baseAlpha[count] = next.alpha[count] = 0;
+      next.flags[count] = 0;
+      next.phase[count] = random() * Math.PI * 2;
+      morphTo(next, count++, specs, toOrder[j], frames);
+    }
+  }
+
+  fading.forEach(i => current.copyTo(i, next, count++));
+  next.count = count;
+  return next;
+};
+
+/**
+ * The reduced-motion alternative to morphParticles: nothing travels. The current particles
+ * fade out where they are while the new formation fades in at its home positions.
+ */
+export const crossfadeParticles = (
+  current: ParticleStore,
+  specs: Float32Array,
+  frames: number,
+  width: number,
+  height: number,
+  random: Random
+): ParticleStore => {
+  if (current.count === 0) return spawnParticles(specs, width, height, random, 0);
+
+  const m = specs.length / SPEC_STRIDE;
+  const next = new ParticleStore(current.count + m);
+  let count = 0;
+
+  for (let i = 0; i < current.count; i++) {
+    current.copyTo(i, next, count);
+    if (!current.isFadingOut(i)) fadeOut(next, count, frames);
+    count++;
+  }
+
+  for (let s = 0; s < m; s++) {
+    const o = s * SPEC_STRIDE;
+    next.x[count] = next.originX[count] = specs[o];
+    next.y[count] = next.originY[count] = specs[o + 1];
+    next.wz[count] = next.originZ[count] = specs[o + 9];
+    next.baseR[count] = specs[o + 2];
+    next.baseG[count] = specs[o + 3];
+    next.baseB[count] = specs[o + 4];
+    next.baseSize[count] = next.size[count] = specs[o + 6];
+    next.z[count] = (random() - 0.5) * 2;
+    next.phase[count] = random() * Math.PI * 2;
+    morphTo(next, count++, specs, s, frames);
+  }
+
+  next.count = count;
+  return next;
+};
@@ -0,0 +1,81 @@
+import { createRenderer } from './createRenderer';
+import { ParticleLoop } from './loop';
+import { EngineCommand, EngineReply } from './protocol';
+import { ParticleSimulation } from './simulation';
+
+// The project compiles against the DOM lib, so describe the little of the worker scope we use
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<EngineCommand>) => void) | null;
+  postMessage(message: EngineReply): void;
+}
+
+const scope = self as unknown as WorkerScope;
+let loop: ParticleLoop | null = null;
+
+scope.onmessage = ({ data: command }) => {
+  if (command.type === 'init') {
+    const renderer = createRenderer(command.canvas, command.backend);
+    if (!renderer) {
+      scope.postMessage({ type: 'error', message: "No renderer available for the offscreen canvas" });
+      return;
+    }
+    const simulation = new ParticleSimulation(command.settings, command.width, command.height, command.seed);
+    loop = new ParticleLoop(renderer, simulation, command.pixelRatio, stats => scope.postMessage({ type: 'stats', stats }));
+    loop.start();
+    scope.postMessage({ type: 'ready', backend: renderer.backend });
+    return;
+  }
+
+  if (!loop) return;
+  const { simulation } = loop;
+  switch (command.type) {
+    case 'specs':
+      simulation.setSpecs(command.specs, command.frames, command.layout);
+      break;
+    case 'settings':
+      simulation.settings = command.settings;
+      break;
+    case 'pointers':
+      simulation.pointers = command.pointers;
+      break;
+    case 'interaction':
+      simulation.interaction = command.mode;
+      break;
+    case 'burst':
+      simulation.burst(command.x, command.y);
+      break;
+    case 'audio':
+      simulation.audio = command.levels;
+      break;
+    case 'scatter':
+      simulation.scatter(command.range);
+      break;
+    case 'resize':
+      loop.resize(command.width, command.height, command.pixelRatio);
+      break;
+    case 'motion':
+      simulation.reducedMotion = command.reduced;
+      break;
+    case 'lights':
+      simulation.lights = command.lights;
+      break;
+    case 'view':
+      simulation.setView(command.view);
+      break;
+    case 'orbit':
+      simulation.orbit(command.dx, command.dy);
+      break;
+    case 'zoom':
+      simulation.zoom(command.factor);
+      break;
+    case 'trail':
+      loop.setTrailColor(command.color);
+      break;
+    case 'quality':
+      loop.setQuality(command.quality);
+      break;
+    case 'paused':
+      loop.setPaused(command.paused);
+      break;
+  }
+};
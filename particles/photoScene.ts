@@ -0,0 +1,86 @@
+import { PhotoSamplingOptions, RGB } from '../types';
+import { FESTIVE_QUANTIZE_COLORS } from '../constants';
+import { ParticleSpec } from './spec';
+import { Random } from './random';
+import { ImageBounds, PixelToSpec, backgroundMask, sampleDithered, sampleEdges, sampleGrid, sampleStochastic } from './sampling';
+
+// Sobel magnitude an edge needs to get a particle
+const EDGE_THRESHOLD = 100;
+// Edge pixels are often the dark side of a line, lift them so line art stays visible
+const EDGE_LIFT = 0.4;
+
+// Nearest palette color, green weighted highest like the eye
+const nearestColor = (rgb: RGB, palette: RGB[]) => {
+  let best = palette[0];
+  let bestDistance = Infinity;
+  palette.forEach(color => {
+    const distance = 2 * (rgb.r - color.r) ** 2 + 4 * (rgb.g - color.g) ** 2 + 3 * (rgb.b - color.b) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = color;
+    }
+  });
+  return best;
+};
+
+// Relief for the 3D view: brighter stands closer, like a lit face against a dark room
+export interface PhotoDepth {
+  // Depth in pixels between black and white
+  relief: number;
+  // A depth map drawn with the same framing as the photo, its brightness is used instead of the photo's
+  map: ImageData | null;
+}
+
+const lighten = (rgb: RGB, amount: number): RGB => ({
+  r: Math.round(rgb.r + (255 - rgb.r) * amount),
+  g: Math.round(rgb.g + (255 - rgb.g) * amount),
+  b: Math.round(rgb.b + (255 - rgb.b) * amount)
+});
+
+/**
+ * Turns a photo drawn at `bounds` on the sampling canvas into particle specs,
+ * using the chosen sampling style plus the optional background removal and palette.
+ * With `depth` every particle also gets its place in the 3D view.
+ */
+export const buildPhotoSpecs = (
+  imageData: ImageData,
+  bounds: ImageBounds,
+  options: PhotoSamplingOptions,
+  gap: number,
+  size: number,
+  random: Random,
+  depth: PhotoDepth | null = null
+): ParticleSpec[] => {
+  const mask = options.removeBackground ? backgroundMask(imageData, bounds, options.backgroundTolerance) : null;
+
+  const toSpec: PixelToSpec = (x, y, r, g, b, alpha) => {
+    if (alpha <= 20) return null;
+    if (mask && mask[y * imageData.width + x]) return null;
+
+    const brightness = (r + g + b) / 3;
+    const isShiny = brightness > 230;
+    let rgb: RGB = { r, g, b };
+    if (options.style === 'edges') rgb = lighten(rgb, EDGE_LIFT);
+    if (options.festivePalette) rgb = nearestColor(rgb, FESTIVE_QUANTIZE_COLORS);
+
+    let z: number | undefined;
+    if (depth) {
+      const o = (y * imageData.width + x) * 4;
+      const level = depth.map ? (depth.map.data[o] + depth.map.data[o + 1] + depth.map.data[o + 2]) / 3 : brightness;
+      z = (0.5 - level / 255) * depth.relief;
+    }
+
+    return { x, y, z, rgb, alpha: 1, size, isOrnament: isShiny };
+  };
+
+  switch (options.style) {
+    case 'edges':
+      return sampleEdges(imageData, gap, EDGE_THRESHOLD, toSpec);
+    case 'stochastic':
+      return sampleStochastic(imageData, bounds, gap, toSpec, random);
+    case 'dither':
+      return sampleDithered(imageData, gap, toSpec);
+    default:
+      return sampleGrid(imageData, gap, toSpec);
+  }
+};
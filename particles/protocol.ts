@@ -0,0 +1,33 @@
+import { AudioLevels, InteractionMode, LightSettings, ParticleSettings, View3DSettings } from '../types';
+import { RendererBackend, TrailColor } from './renderer';
+import { EngineStats } from './engine';
+import { LayoutSize } from './layout';
+import { RenderQuality } from './quality';
+import { PointerState } from './simulation';
+
+// Main thread -> particle worker
+export type EngineCommand =
+  | { type: 'init'; canvas: OffscreenCanvas; backend: RendererBackend | 'auto'; settings: ParticleSettings; width: number; height: number; pixelRatio: number; seed: number }
+  // Packed specs (see packSpecs), the buffer is transferred
+  | { type: 'specs'; specs: Float32Array; frames: number; layout: LayoutSize }
+  | { type: 'settings'; settings: ParticleSettings }
+  | { type: 'pointers'; pointers: PointerState[] }
+  | { type: 'interaction'; mode: InteractionMode }
+  | { type: 'burst'; x: number; y: number }
+  | { type: 'audio'; levels: AudioLevels }
+  | { type: 'scatter'; range: number }
+  | { type: 'resize'; width: number; height: number; pixelRatio: number }
+  | { type: 'quality'; quality: RenderQuality }
+  | { type: 'trail'; color: TrailColor }
+  | { type: 'motion'; reduced: boolean }
+  | { type: 'lights'; lights: LightSettings }
+  | { type: 'view'; view: View3DSettings }
+  | { type: 'orbit'; dx: number; dy: number }
+  | { type: 'zoom'; factor: number }
+  | { type: 'paused'; paused: boolean };
+
+// Particle worker -> main thread
+export type EngineReply =
+  | { type: 'ready'; backend: RendererBackend }
+  | { type: 'error'; message: string }
+  | { type: 'stats'; stats: EngineStats };
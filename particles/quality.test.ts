@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { QUALITY_TIERS, thinSpecs } from './quality';
+import { ParticleSpec } from './spec';
+
+const specs: ParticleSpec[] = Array.from({ length: 400 }, (_, i) => ({
+  x: i, y: i, rgb: { r: 255, g: 255, b: 255 }, alpha: 1, size: 2, isOrnament: i % 20 === 0
+}));
+
+describe('thinSpecs', () => {
+  it('keeps everything at the top tier', () => {
+    expect(thinSpecs(specs, QUALITY_TIERS[0], 7)).toBe(specs);
+  });
+
+  it('drops about the share a wider gap would, but never ornaments', () => {
+    const tier = QUALITY_TIERS[QUALITY_TIERS.length - 1];
+    const kept = thinSpecs(specs, tier, 7);
+    expect(kept.length).toBeGreaterThan(60);
+    expect(kept.length).toBeLessThan(160);
+    expect(kept.filter(spec => spec.isOrnament)).toHaveLength(20);
+  });
+
+  it('thins the same way for the same seed', () => {
+    const tier = QUALITY_TIERS[1];
+    expect(thinSpecs(specs, tier, 7)).toEqual(thinSpecs(specs, tier, 7));
+  });
+});
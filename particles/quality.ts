@@ -0,0 +1,99 @@
+import { ParticleSpec } from './spec';
+import { createRandom } from './random';
+
+// What the renderer may spend per frame
+export interface RenderQuality {
+  glow: boolean; // Ornament halo pass
+  trails: boolean; // Motion trails, otherwise every frame starts from a clean background
+}
+
+export interface QualityTier extends RenderQuality {
+  name: string;
+  gapScale: number; // Multiplies the sampling gap, 2 means roughly a quarter of the particles
+}
+
+// From best to cheapest: first fewer particles, then no glow, then no trails
+export const QUALITY_TIERS: QualityTier[] = [
+  { name: 'High', gapScale: 1, glow: true, trails: true },
+  { name: 'Medium', gapScale: 1.3, glow: true, trails: true },
+  { name: 'Low', gapScale: 1.6, glow: false, trails: true },
+  { name: 'Minimal', gapScale: 2, glow: false, trails: false }
+];
+
+// Mixed into the scene's seed for thinning's own generator
+const THINNING_SALT = 0x5eed7e1e;
+
+/**
+ * Generated scenes place their particles without a sampling gap, so a tier's density is
+ * applied by dropping the share a photo would lose to its wider gap. Ornaments and lights
+ * all stay, they are few and carry the scene. Thinning draws from its own generator, so
+ * the scene's seed lays out the same formation at every tier.
+ */
+export const thinSpecs = (specs: ParticleSpec[], { gapScale }: QualityTier, seed: number) => {
+  if (gapScale <= 1) return specs;
+  const random = createRandom(seed ^ THINNING_SALT);
+  const keep = 1 / (gapScale * gapScale);
+  return specs.filter(spec => spec.isOrnament || random() < keep);
+};
+
+// Below this the scene steps down. A little under 60 so vsync jitter doesn't count as slow.
+const TARGET_FPS = 50;
+// Stats arrive about twice a second: two seconds of slow frames step down, ten of fast ones step up
+const SLOW_SAMPLES = 4;
+const FAST_SAMPLES = 20;
+// Rebuilding the formation after a change stutters by itself, so a few samples are skipped
+const SETTLE_SAMPLES = 3;
+
+/**
+ * Picks a quality tier from the measured frame rate. Stepping up again waits twice as long
+ * each time the better tier turns out too slow, so the scene doesn't flip back and forth.
+ */
+export class QualityGovernor {
+  tier = 0;
+  private slow = 0;
+  private fast = 0;
+  private settle = 0;
+  private upgradeAfter = FAST_SAMPLES;
+  private sinceUpgrade = Infinity;
+
+  // Feeds one frame-rate sample, returns true when the tier changed
+  update(fps: number) {
+    this.sinceUpgrade++;
+    if (this.settle > 0) {
+      this.settle--;
+      return false;
+    }
+
+    if (fps < TARGET_FPS) {
+      this.slow++;
+      this.fast = 0;
+    } else {
+      this.fast++;
+      this.slow = 0;
+    }
+
+    if (this.slow >= SLOW_SAMPLES && this.tier < QUALITY_TIERS.length - 1) {
+      if (this.sinceUpgrade < FAST_SAMPLES) this.upgradeAfter *= 2;
+      return this.change(this.tier + 1);
+    }
+    if (this.fast >= this.upgradeAfter && this.tier > 0) {
+      this.sinceUpgrade = 0;
+      return this.change(this.tier - 1);
+    }
+    return false;
+  }
+
+  reset() {
+    this.upgradeAfter = FAST_SAMPLES;
+    this.sinceUpgrade = Infinity;
+    this.change(0);
+  }
+
+  private change(tier: number) {
+    this.tier = tier;
+    this.slow = 0;
+    this.fast = 0;
+    this.settle = SETTLE_SAMPLES;
+    return true;
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from './random';
+
+const sequence = (seed: number, length = 100) => {
+  const random = createRandom(seed);
+  return Array.from({ length }, () => random());
+};
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(sequence(7)).toEqual(sequence(7));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(sequence(7)).not.toEqual(sequence(8));
+  });
+
+  it('stays within [0, 1) and spreads evenly', () => {
+    const values = sequence(123, 10000);
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    expect(mean).toBeCloseTo(0.5, 1);
+  });
+});
@@ -0,0 +1,22 @@
+// Seeded randomness, so a scene and its animation come out the same for the same seed
+// on every device. Everything that places or jitters particles takes one of these
+// instead of calling Math.random.
+export type Random = () => number;
+
+/**
+ * Mulberry32: a tiny 32-bit generator, plenty for scattering particles. Returns numbers in
+ * [0, 1) like Math.random. Generators made from the same seed produce the same sequence.
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// A fresh seed for a new scene, a whole number that fits a share link
+export const randomSeed = () => Math.floor(Math.random() * 0x100000000);
@@ -0,0 +1,39 @@
+import { ParticleStore } from './ParticleStore';
+import { RenderQuality } from './quality';
+import { Projection } from './camera';
+
+export type RendererBackend = 'webgl' | 'canvas2d';
+
+// Renderers draw either on the page or, inside the worker, on a transferred OffscreenCanvas
+export type RenderTarget = HTMLCanvasElement | OffscreenCanvas;
+
+// Draws one frame of the particle system onto the canvas it was created for.
+// Each backend owns the canvas context, so a canvas can only ever have one renderer.
+export interface ParticleRenderer {
+  readonly backend: RendererBackend;
+  // Lowered by the quality governor when frames take too long
+  quality: RenderQuality;
+  // Background painted under the particles, set by the theme
+  trail: TrailColor;
+  // Sizes the backing store to `pixelRatio` device pixels per CSS pixel. Particles stay in CSS pixels.
+  resize(width: number, height: number, pixelRatio: number): void;
+  // `glow` scales the ornament halo, 1 is the resting look. With a `projection` (the 3D view)
+  // particles are drawn where and in the order it puts them, faded by its fog.
+  render(store: ParticleStore, glow: number, projection: Projection | null): void;
+  dispose(): void;
+}
+
+// Painted over the previous frame at `a` instead of clearing, which leaves motion trails.
+// Without trails it is painted fully opaque.
+export interface TrailColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// Slate 950 at 40%
+export const TRAIL_COLOR: TrailColor = { r: 2, g: 6, b: 23, a: 0.4 };
+
+// Resting ornament halo: the `shadowBlur` of the Canvas2D path, matched by the WebGL glow pass
+export const ORNAMENT_GLOW_BLUR = 5;
@@ -0,0 +1,222 @@
+import { ParticleSpec } from './spec';
+import { Random } from './random';
+
+// Decides what (if anything) a sampled pixel becomes
+export type PixelToSpec = (x: number, y: number, r: number, g: number, b: number, a: number) => ParticleSpec | null;
+
+// Visits every `gap`-th pixel of the image, like a coarse grid laid over the canvas
+export const sampleGrid = (imageData: ImageData, gap: number, toSpec: PixelToSpec): ParticleSpec[] => {
+  const { width, height, data } = imageData;
+  const step = Math.max(3, Math.floor(gap));
+  const specs: ParticleSpec[] = [];
+
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const index = (y * width + x) * 4;
+      const spec = toSpec(x, y, data[index], data[index + 1], data[index + 2], data[index + 3]);
+      if (spec) specs.push(spec);
+    }
+  }
+  return specs;
+};
+
+// Where the photo was drawn on the sampling canvas
+export interface ImageBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const luminance = (data: Uint8ClampedArray, index: number) =>
+  0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+
+const emit = (imageData: ImageData, x: number, y: number, toSpec: PixelToSpec) => {
+  const index = (y * imageData.width + x) * 4;
+  const { data } = imageData;
+  return toSpec(x, y, data[index], data[index + 1], data[index + 2], data[index + 3]);
+};
+
+// Gradient magnitude of the luminance (Sobel operator), one value per pixel
+export const sobelMagnitude = (imageData: ImageData): Float32Array => {
+  const { width, height, data } = imageData;
+  const lum = new Float32Array(width * height);
+  for (let i = 0; i < lum.length; i++) lum[i] = luminance(data, i * 4) * (data[i * 4 + 3] / 255);
+
+  const magnitude = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = lum[i - width + 1] + 2 * lum[i + 1] + lum[i + width + 1]
+               - lum[i - width - 1] - 2 * lum[i - 1] - lum[i + width - 1];
+      const gy = lum[i + width - 1] + 2 * lum[i + width] + lum[i + width + 1]
+               - lum[i - width - 1] - 2 * lum[i - width] - lum[i - width + 1];
+      magnitude[i] = Math.hypot(gx, gy);
+    }
+  }
+  return magnitude;
+};
+
+// One particle per grid cell that contains an edge, placed on the cell's strongest edge pixel
+export const sampleEdges = (imageData: ImageData, gap: number, threshold: number, toSpec: PixelToSpec): ParticleSpec[] => {
+  const { width, height } = imageData;
+  const magnitude = sobelMagnitude(imageData);
+  const step = Math.max(3, Math.floor(gap));
+  const specs: ParticleSpec[] = [];
+
+  for (let cellY = 0; cellY < height; cellY += step) {
+    for (let cellX = 0; cellX < width; cellX += step) {
+      let best = -1;
+      let bestValue = threshold;
+      for (let y = cellY; y < Math.min(height, cellY + step); y++) {
+        for (let x = cellX; x < Math.min(width, cellX + step); x++) {
+          const value = magnitude[y * width + x];
+          if (value > bestValue) {
+            bestValue = value;
+            best = y * width + x;
+          }
+        }
+      }
+      if (best < 0) continue;
+      const spec = emit(imageData, best % width, Math.floor(best / width), toSpec);
+      if (spec) specs.push(spec);
+    }
+  }
+  return specs;
+};
+
+// Random pixels inside `bounds`, kept with a probability that grows with brightness, so
+// highlights end up dense and shadows sparse. Uses about as many particles as the grid would.
+export const sampleStochastic = (imageData: ImageData, bounds: ImageBounds, gap: number, toSpec: PixelToSpec, random: Random): ParticleSpec[] => {
+  const step = Math.max(3, Math.floor(gap));
+  const budget = Math.round((bounds.width / step) * (bounds.height / step));
+  const specs: ParticleSpec[] = [];
+  const { data, width, height } = imageData;
+
+  for (let attempt = 0; attempt < budget * 8 && specs.length < budget; attempt++) {
+    const x = Math.min(width - 1, Math.floor(bounds.x + random() * bounds.width));
+    const y = Math.min(height - 1, Math.floor(bounds.y + random() * bounds.height));
+    if (x < 0 || y < 0) continue;
+    if (random() > Math.pow(luminance(data, (y * width + x) * 4) / 255, 1.5)) continue;
+    const spec = emit(imageData, x, y, toSpec);
+    if (spec) specs.push(spec);
+  }
+  return specs;
+};
+
+// Floyd–Steinberg error diffusion on a grid of luminance samples: each cell becomes a
+// particle or nothing, and the rounding error is pushed onto its unvisited neighbours.
+export const sampleDithered = (imageData: ImageData, gap: number, toSpec: PixelToSpec): ParticleSpec[] => {
+  const { width, height, data } = imageData;
+  // Dithering drops the dark cells, so a finer grid keeps the particle count comparable
+  const step = Math.max(2, Math.floor(gap * 0.75));
+  const columns = Math.ceil(width / step);
+  const rows = Math.ceil(height / step);
+  const levels = new Float32Array(columns * rows);
+  const visible = new Uint8Array(columns * rows);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const index = ((row * step) * width + column * step) * 4;
+      const cell = row * columns + column;
+      visible[cell] = data[index + 3] > 20 ? 1 : 0;
+      levels[cell] = luminance(data, index);
+    }
+  }
+
+  const spread = (column: number, row: number, amount: number) => {
+    if (column < 0 || column >= columns || row >= rows) return;
+    const cell = row * columns + column;
+    if (visible[cell]) levels[cell] += amount;
+  };
+
+  const specs: ParticleSpec[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const cell = row * columns + column;
+      if (!visible[cell]) continue;
+      const on = levels[cell] >= 128;
+      const error = levels[cell] - (on ? 255 : 0);
+      spread(column + 1, row, (error * 7) / 16);
+      spread(column - 1, row + 1, (error * 3) / 16);
+      spread(column, row + 1, (error * 5) / 16);
+      spread(column + 1, row + 1, error / 16);
+      if (!on) continue;
+      const spec = emit(imageData, column * step, row * step, toSpec);
+      if (spec) specs.push(spec);
+    }
+  }
+  return specs;
+};
+
+/**
+ * Marks the photo's background: pixels connected to the corners of `bounds` whose color is
+ * within `tolerance` (RGB distance) of one of the corner colors. Returns 1 per background pixel.
+ */
+export const backgroundMask = (imageData: ImageData, bounds: ImageBounds, tolerance: number): Uint8Array => {
+  const { width, height, data } = imageData;
+  const mask = new Uint8Array(width * height);
+  const left = Math.max(0, Math.ceil(bounds.x));
+  const top = Math.max(0, Math.ceil(bounds.y));
+  const right = Math.min(width, Math.floor(bounds.x + bounds.width)) - 1;
+  const bottom = Math.min(height, Math.floor(bounds.y + bounds.height)) - 1;
+  if (right <= left || bottom <= top) return mask;
+
+  // Average a small patch at each corner, one stray pixel shouldn't decide the background color
+  const patch = 4;
+  const cornerColor = (cx: number, cy: number, dx: number, dy: number) => {
+    let r = 0, g = 0, b = 0, n = 0;
+    for (let j = 0; j < patch; j++) {
+      for (let i = 0; i < patch; i++) {
+        const x = cx + i * dx;
+        const y = cy + j * dy;
+        if (x < left || x > right || y < top || y > bottom) continue;
+        const index = (y * width + x) * 4;
+        r += data[index];
+        g += data[index + 1];
+        b += data[index + 2];
+        n++;
+      }
+    }
+    return [r / n, g / n, b / n];
+  };
+  const corners = [
+    { x: left, y: top, color: cornerColor(left, top, 1, 1) },
+    { x: right, y: top, color: cornerColor(right, top, -1, 1) },
+    { x: left, y: bottom, color: cornerColor(left, bottom, 1, -1) },
+    { x: right, y: bottom, color: cornerColor(right, bottom, -1, -1) }
+  ];
+
+  const limit = tolerance * tolerance;
+  const isBackground = (index: number) => {
+    const r = data[index * 4];
+    const g = data[index * 4 + 1];
+    const b = data[index * 4 + 2];
+    return corners.some(({ color }) => {
+      const dr = r - color[0];
+      const dg = g - color[1];
+      const db = b - color[2];
+      return dr * dr + dg * dg + db * db <= limit;
+    });
+  };
+
+  // Flood fill from the corners, so subject pixels that happen to match stay
+  const stack: number[] = [];
+  const visit = (x: number, y: number) => {
+    if (x < left || x > right || y < top || y > bottom) return;
+    const index = y * width + x;
+    if (mask[index] || !isBackground(index)) return;
+    mask[index] = 1;
+    stack.push(index);
+  };
+  corners.forEach(({ x, y }) => visit(x, y));
+  for (let index = stack.pop(); index !== undefined; index = stack.pop()) {
+    const x = index % width;
+    const y = (index - x) / width;
+    visit(x + 1, y);
+    visit(x - 1, y);
+    visit(x, y + 1);
+    visit(x, y - 1);
+  }
+  return mask;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from './random';
+import { treeScene } from './treeScene';
+import { listSceneGenerators } from './sceneGenerators';
+import { DEFAULT_SETTINGS } from '../constants';
+import { DEFAULT_THEME_ID, getTheme } from '../themes';
+
+describe('seeded scenes', () => {
+  const size = { width: 800, height: 600 };
+  const palette = getTheme(DEFAULT_THEME_ID).particles;
+
+  it('draws every built-in scene the same way from the same seed', () => {
+    listSceneGenerators().forEach(generator => {
+      const a = generator.generate(size, DEFAULT_SETTINGS, generator.defaultOptions, palette, createRandom(5));
+      const b = generator.generate(size, DEFAULT_SETTINGS, generator.defaultOptions, palette, createRandom(5));
+      expect(a).toEqual(b);
+    });
+  });
+
+  it('draws a different tree from another seed', () => {
+    const a = treeScene.generate(size, DEFAULT_SETTINGS, treeScene.defaultOptions!, palette, createRandom(5));
+    const b = treeScene.generate(size, DEFAULT_SETTINGS, treeScene.defaultOptions!, palette, createRandom(6));
+    expect(a).not.toEqual(b);
+  });
+
+  it('builds the solid tree around its trunk, in front and behind', () => {
+    const specs = treeScene.generateSolid!(size, DEFAULT_SETTINGS, treeScene.defaultOptions!, palette, createRandom(5));
+    const depths = specs.map(spec => spec.z ?? 0);
+    expect(Math.min(...depths)).toBeLessThan(-50);
+    expect(Math.max(...depths)).toBeGreaterThan(50);
+  });
+});
@@ -0,0 +1,51 @@
+import { ParticlePalette, ParticleSettings } from '../types';
+import { ParticleSpec } from './spec';
+import { LayoutSize } from './layout';
+import { Random } from './random';
+import { BUILTIN_SCENES } from './builtinScenes';
+
+/**
+ * Draws a scene out of thin air: given the canvas size, the particle settings and the
+ * theme's colors, it returns where every particle should sit. All randomness comes from
+ * `random`, so the same seed draws the same scene. Runs on the main thread when the scene
+ * is picked or the particle size changes, so it should finish well within a frame or two.
+ * Later resizes just refit the result.
+ */
+export interface SceneGenerator<Options = unknown> {
+  id: string; // Used as the canvas variant and in share links
+  label: string; // Shown in the scene picker
+  description: string; // Read by screen readers in place of the animation
+  // Used when the canvas is given no options for this scene
+  defaultOptions?: Options;
+  generate(size: LayoutSize, settings: ParticleSettings, options: Options, palette: ParticlePalette, random: Random): ParticleSpec[];
+  // The scene built with depth (ParticleSpec.z) for the 3D view. Scenes without one are
+  // given a little thickness instead (see depth.ts).
+  generateSolid?(size: LayoutSize, settings: ParticleSettings, options: Options, palette: ParticlePalette, random: Random): ParticleSpec[];
+}
+
+export const DEFAULT_SCENE_ID = 'tree';
+
+// Variants the canvas handles itself, generators can't take these ids
+const RESERVED_IDS = ['image', 'text'];
+
+const registry = new Map<string, SceneGenerator>();
+
+/**
+ * Adds a scene to the picker and makes its id a valid canvas variant. Registering an id
+ * again replaces the earlier generator, so built-in scenes can be swapped out too.
+ */
+export const registerSceneGenerator = <Options>(generator: SceneGenerator<Options>) => {
+  if (RESERVED_IDS.includes(generator.id)) throw new Error(`"${generator.id}" is not available as a scene id`);
+  registry.set(generator.id, generator);
+};
+
+export const hasSceneGenerator = (id: string) => registry.has(id);
+
+// Unknown ids fall back to the tree, so an old link or a missing plugin still shows something
+export const getSceneGenerator = (id: string): SceneGenerator =>
+  registry.get(id) ?? registry.get(DEFAULT_SCENE_ID)!;
+
+// In registration order: built-ins first, then anything added later
+export const listSceneGenerators = () => Array.from(registry.values());
+
+BUILTIN_SCENES.forEach(registerSceneGenerator);
@@ -0,0 +1,83 @@
+import { RGB } from '../types';
+import { Random } from './random';
+
+// Small drawing helpers shared by the generated scenes. The random ones take the scene's
+// generator first, so a seed always draws the same scene.
+export type Point = [number, number];
+
+const channel = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+// The same color, each channel nudged by up to `spread`
+export const vary = (random: Random, base: RGB, spread: number): RGB => ({
+  r: channel(base.r + (random() - 0.5) * 2 * spread),
+  g: channel(base.g + (random() - 0.5) * 2 * spread),
+  b: channel(base.b + (random() - 0.5) * 2 * spread)
+});
+
+// Each channel picked on its own between the two colors
+export const between = (random: Random, [low, high]: [RGB, RGB]): RGB => ({
+  r: Math.floor(low.r + random() * (high.r - low.r)),
+  g: Math.floor(low.g + random() * (high.g - low.g)),
+  b: Math.floor(low.b + random() * (high.b - low.b))
+});
+
+export const pick = <T>(random: Random, items: T[]) => items[Math.floor(random() * items.length)];
+
+// Uniform over the disc's area, not bunched in the middle
+export const inDisc = (random: Random, cx: number, cy: number, radius: number): Point => {
+  const angle = random() * Math.PI * 2;
+  const dist = radius * Math.sqrt(random());
+  return [cx + Math.cos(angle) * dist, cy + Math.sin(angle) * dist];
+};
+
+export const inPolygon = ([x, y]: Point, polygon: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Corners of a star with `points` tips, the first one pointing up
+export const starPolygon = (cx: number, cy: number, outer: number, inner: number, points = 5): Point[] => {
+  const corners: Point[] = [];
+  for (let i = 0; i < points * 2; i++) {
+    const angle = -Math.PI / 2 + (i * Math.PI) / points;
+    const r = i % 2 === 0 ? outer : inner;
+    corners.push([cx + Math.cos(angle) * r, cy + Math.sin(angle) * r]);
+  }
+  return corners;
+};
+
+// A random point inside the polygon, by trying points in its bounding box
+export const inShape = (random: Random, polygon: Point[]): Point => {
+  const xs = polygon.map(([x]) => x);
+  const ys = polygon.map(([, y]) => y);
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  const width = Math.max(...xs) - left;
+  const height = Math.max(...ys) - top;
+  for (;;) {
+    const p: Point = [left + random() * width, top + random() * height];
+    if (inPolygon(p, polygon)) return p;
+  }
+};
+
+// A random point on the polygon's outline, with its place along the outline (0 to 1)
+export const onOutline = (random: Random, polygon: Point[]): [number, number, number] => {
+  const edge = Math.floor(random() * polygon.length);
+  const [ax, ay] = polygon[edge];
+  const [bx, by] = polygon[(edge + 1) % polygon.length];
+  const t = random();
+  return [ax + (bx - ax) * t, ay + (by - ay) * t, (edge + t) / polygon.length];
+};
+
+// Lemniscate-like figure eight, drawn sideways it reads as a ribbon bow
+export const bowPoint = (random: Random, cx: number, cy: number, span: number): Point => {
+  const t = random() * Math.PI * 2;
+  const s = Math.sin(t);
+  const wobble = 0.85 + random() * 0.15;
+  return [cx + (span * Math.cos(t) * wobble) / (1 + s * s), cy + (span * s * Math.cos(t) * wobble) / (1 + s * s)];
+};
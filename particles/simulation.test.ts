@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import { ParticleSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { ParticleSimulation } from './simulation';
+import { SPEC_STRIDE } from './ParticleStore';
+
+const WIDTH = 400;
+const HEIGHT = 400;
+
+// No breathing and no idle sway, so only the spring, friction and pointer forces move particles
+const SETTINGS: ParticleSettings = { ...DEFAULT_SETTINGS, breathIntensity: 0 };
+
+// One particle per home, spawned at home and flat (depth 0, so parallax doesn't move it)
+const simulate = (homes: [number, number][], settings: Partial<ParticleSettings> = {}, seed = 1) => {
+  const simulation = new ParticleSimulation({ ...SETTINGS, ...settings }, WIDTH, HEIGHT, seed);
+  const specs = new Float32Array(homes.length * SPEC_STRIDE);
+  homes.forEach(([x, y], i) => {
+    specs.set([x, y, 255, 255, 255, 1, 2, 0, -1], i * SPEC_STRIDE);
+  });
+  simulation.setSpecs(specs, 0, { width: WIDTH, height: HEIGHT });
+  const { store } = simulation;
+  for (let i = 0; i < store.count; i++) {
+    store.x[i] = store.originX[i];
+    store.y[i] = store.originY[i];
+    store.z[i] = 0;
+  }
+  return simulation;
+};
+
+const steps = (simulation: ParticleSimulation, count: number) => {
+  for (let i = 0; i < count; i++) simulation.step();
+};
+
+describe('spring', () => {
+  it('pulls a displaced particle back home', () => {
+    const simulation = simulate([[200, 200]]);
+    const { store } = simulation;
+    store.x[0] = 260;
+
+    simulation.step();
+    expect(store.vx[0]).toBeLessThan(0);
+    expect(store.x[0]).toBeLessThan(260);
+
+    steps(simulation, 300);
+    expect(store.x[0]).toBeCloseTo(200, 2);
+    expect(store.y[0]).toBeCloseTo(200, 2);
+  });
+
+  it('pulls harder the further the particle is from home', () => {
+    const near = simulate([[200, 200]]);
+    const far = simulate([[200, 200]]);
+    near.store.x[0] = 210;
+    far.store.x[0] = 240;
+
+    near.step();
+    far.step();
+    expect(Math.abs(far.store.vx[0])).toBeGreaterThan(Math.abs(near.store.vx[0]));
+  });
+
+  it('leaves a particle at rest at home alone', () => {
+    const simulation = simulate([[120, 80]]);
+    steps(simulation, 10);
+    expect(simulation.store.x[0]).toBe(120);
+    expect(simulation.store.y[0]).toBe(80);
+    expect(simulation.store.vx[0]).toBe(0);
+  });
+});
+
+describe('friction', () => {
+  it('scales the velocity down every tick', () => {
+    const simulation = simulate([[200, 200]], { ease: 0, friction: 0.9 });
+    const { store } = simulation;
+    store.vx[0] = 10;
+
+    simulation.step();
+    expect(store.vx[0]).toBeCloseTo(9, 5);
+    expect(store.x[0]).toBeCloseTo(209, 5);
+
+    simulation.step();
+    expect(store.vx[0]).toBeCloseTo(8.1, 5);
+  });
+
+  it('damps the spring so each swing past home is smaller than the last', () => {
+    const simulation = simulate([[200, 200]]);
+    const { store } = simulation;
+    store.x[0] = 300;
+
+    // Furthest distance from home during consecutive windows of ticks
+    const swings: number[] = [];
+    for (let window = 0; window < 6; window++) {
+      let furthest = 0;
+      for (let i = 0; i < 20; i++) {
+        simulation.step();
+        furthest = Math.max(furthest, Math.abs(store.x[0] - 200));
+      }
+      swings.push(furthest);
+    }
+    swings.slice(1).forEach((swing, i) => expect(swing).toBeLessThan(swings[i]));
+  });
+
+  it('stops a particle sooner when it is lower', () => {
+    const slippery = simulate([[200, 200]], { friction: 0.95 });
+    const sticky = simulate([[200, 200]], { friction: 0.7 });
+    slippery.store.x[0] = sticky.store.x[0] = 300;
+
+    steps(slippery, 40);
+    steps(sticky, 40);
+    expect(Math.abs(sticky.store.x[0] - 200)).toBeLessThan(Math.abs(slippery.store.x[0] - 200));
+  });
+});
+
+describe('pointer repulsion', () => {
+  it('pushes particles within the radius away from the pointer', () => {
+    const simulation = simulate([[200, 200]], { pointerRadius: 80, pointerStrength: 20 });
+    simulation.pointers = [{ x: 170, y: 200 }];
+
+    simulation.step();
+    expect(simulation.store.vx[0]).toBeGreaterThan(0);
+    expect(simulation.store.x[0]).toBeGreaterThan(200);
+  });
+
+  it('pushes nearer particles harder', () => {
+    const simulation = simulate([[150, 100], [190, 300]], { pointerRadius: 80, pointerStrength: 20 });
+    // 20 pixels from the first particle, 60 from the second
+    simulation.pointers = [{ x: 130, y: 100 }, { x: 130, y: 300 }];
+
+    simulation.step();
+    expect(simulation.store.vx[0]).toBeGreaterThan(simulation.store.vx[1]);
+    expect(simulation.store.vx[1]).toBeGreaterThan(0);
+  });
+
+  it('ignores particles outside the radius', () => {
+    const simulation = simulate([[200, 200]], { pointerRadius: 80 });
+    simulation.pointers = [{ x: 100, y: 200 }];
+
+    simulation.step();
+    expect(simulation.store.x[0]).toBe(200);
+    expect(simulation.store.vx[0]).toBe(0);
+  });
+
+  it('pulls particles in when attracting', () => {
+    const simulation = simulate([[200, 200]], { pointerRadius: 80 });
+    simulation.interaction = 'attract';
+    simulation.pointers = [{ x: 170, y: 200 }];
+
+    simulation.step();
+    expect(simulation.store.x[0]).toBeLessThan(200);
+  });
+
+  it('lets the spring bring particles home once the pointer leaves', () => {
+    const simulation = simulate([[200, 200]], { pointerRadius: 80 });
+    simulation.pointers = [{ x: 170, y: 200 }];
+    steps(simulation, 10);
+    expect(simulation.store.x[0]).toBeGreaterThan(200);
+
+    simulation.pointers = [];
+    steps(simulation, 300);
+    expect(simulation.store.x[0]).toBeCloseTo(200, 2);
+  });
+
+  it('has no effect with reduced motion', () => {
+    const simulation = simulate([[200, 200]], { pointerRadius: 80 });
+    simulation.reducedMotion = true;
+    simulation.pointers = [{ x: 170, y: 200 }];
+
+    simulation.step();
+    expect(simulation.store.x[0]).toBe(200);
+  });
+});
+
+describe('determinism', () => {
+  const build = (seed: number) => {
+    const simulation = new ParticleSimulation(DEFAULT_SETTINGS, WIDTH, HEIGHT, seed);
+    const specs = new Float32Array(50 * SPEC_STRIDE);
+    for (let i = 0; i < 50; i++) specs.set([i * 8, 200 + (i % 5) * 10, 200, 220, 255, 1, 2, i % 7 === 0 ? 1 : 0, -1], i * SPEC_STRIDE);
+    simulation.setSpecs(specs, 0, { width: WIDTH, height: HEIGHT });
+    simulation.pointers = [{ x: 100, y: 210 }];
+    steps(simulation, 30);
+    simulation.scatter(200);
+    steps(simulation, 30);
+    return simulation.store;
+  };
+
+  it('replays exactly from the same seed', () => {
+    const a = build(42);
+    const b = build(42);
+    expect(Array.from(a.x.subarray(0, a.count))).toEqual(Array.from(b.x.subarray(0, b.count)));
+    expect(Array.from(a.y.subarray(0, a.count))).toEqual(Array.from(b.y.subarray(0, b.count)));
+  });
+
+  it('comes out differently from another seed', () => {
+    const a = build(42);
+    const b = build(43);
+    expect(Array.from(a.x.subarray(0, a.count))).not.toEqual(Array.from(b.x.subarray(0, b.count)));
+  });
+});
+
+describe('3D view', () => {
+  it('springs depth home like x and y', () => {
+    const simulation = simulate([[200, 200]]);
+    simulation.setView({ enabled: true, autoRotate: false });
+    const { store } = simulation;
+    store.wz[0] = 80;
+
+    steps(simulation, 300);
+    expect(store.wz[0]).toBeCloseTo(0, 2);
+  });
+
+  it('leaves the particles alone while pointers steer the camera', () => {
+    const simulation = simulate([[200, 200]], { pointerStrength: 5 });
+    simulation.setView({ enabled: true, autoRotate: false });
+    simulation.pointers = [{ x: 210, y: 200 }];
+    steps(simulation, 10);
+    expect(simulation.store.x[0]).toBe(200);
+  });
+
+  it('projects only while the view is 3D', () => {
+    const simulation = simulate([[200, 200]]);
+    expect(simulation.project()).toBeNull();
+    simulation.setView({ enabled: true, autoRotate: true });
+    expect(simulation.project()?.count).toBe(1);
+    simulation.setView({ enabled: false, autoRotate: true });
+    expect(simulation.project()).toBeNull();
+  });
+});
@@ -0,0 +1,294 @@
+import { AudioLevels, InteractionMode, LightSettings, ParticleSettings, View3DSettings } from '../types';
+import { EXPIRED, LIGHT, ORNAMENT, ParticleStore, SPEC_STRIDE } from './ParticleStore';
+import { LayoutSize, LayoutTransform, fitTransform } from './layout';
+import { crossfadeParticles, morphParticles } from './morph';
+import { applyLightProgram } from './lights';
+import { Random, createRandom } from './random';
+import { OrbitCamera, Projection } from './camera';
+
+// One active touch or mouse, in canvas pixels
+export interface PointerState {
+  x: number;
+  y: number;
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+// A burst reaches further and hits harder than a held pointer
+const BURST_RADIUS_SCALE = 3;
+const BURST_STRENGTH_SCALE = 1.5;
+// How far the music can push breathing, in pixels on top of breathIntensity
+const AUDIO_BREATH_RANGE = 6;
+// Ornaments swell by up to this share of their size on a beat
+const BEAT_TWINKLE = 0.8;
+
+// Share of the swirl force that pulls inwards, so particles orbit instead of flying off
+const SWIRL_PULL = 0.25;
+
+// Blends every morphing particle one tick further into its target.
+// Returns true when some have finished fading out and can be dropped.
+const advanceMorphs = (s: ParticleStore) => {
+  const { morphFrame, morphFrames, flags, toFlags, originX, originY, originZ, baseR, baseG, baseB, baseAlpha, baseSize } = s;
+  const { fromX, fromY, fromZ, fromR, fromG, fromB, fromAlpha, fromSize } = s;
+  const { toX, toY, toZ, toR, toG, toB, toAlpha, toSize } = s;
+  let expired = false;
+
+  for (let i = 0; i < s.count; i++) {
+    if (morphFrames[i] <= 0) continue;
+
+    morphFrame[i]++;
+    const t = Math.min(1, morphFrame[i] / morphFrames[i]);
+    const e = easeInOutCubic(t);
+
+    originX[i] = lerp(fromX[i], toX[i], e);
+    originY[i] = lerp(fromY[i], toY[i], e);
+    originZ[i] = lerp(fromZ[i], toZ[i], e);
+    baseR[i] = lerp(fromR[i], toR[i], e);
+    baseG[i] = lerp(fromG[i], toG[i], e);
+    baseB[i] = lerp(fromB[i], toB[i], e);
+    baseAlpha[i] = lerp(fromAlpha[i], toAlpha[i], e);
+    baseSize[i] = lerp(fromSize[i], toSize[i], e);
+    // Glow and lights switch halfway, when the particle has mostly taken on its new color
+    if (t >= 0.5) flags[i] = (flags[i] & ~(ORNAMENT | LIGHT)) | toFlags[i];
+
+    if (t < 1) continue;
+    morphFrames[i] = 0;
+    if (toAlpha[i] <= 0) {
+      flags[i] |= EXPIRED;
+      expired = true;
+    }
+  }
+  return expired;
+};
+
+// Moves every particle from one layout transform to another, velocities and sizes included,
+// so a resize carries the formation along instead of rebuilding it
+const remapStore = (s: ParticleStore, before: LayoutTransform, after: LayoutTransform) => {
+  const ratio = after.scale / before.scale;
+  const mapX = (array: Float32Array) => {
+    for (let i = 0; i < s.count; i++) array[i] = (array[i] - before.offsetX) * ratio + after.offsetX;
+  };
+  const mapY = (array: Float32Array) => {
+    for (let i = 0; i < s.count; i++) array[i] = (array[i] - before.offsetY) * ratio + after.offsetY;
+  };
+  const scale = (array: Float32Array) => {
+    for (let i = 0; i < s.count; i++) array[i] *= ratio;
+  };
+  [s.x, s.originX, s.fromX, s.toX].forEach(mapX);
+  [s.y, s.originY, s.fromY, s.toY].forEach(mapY);
+  [s.vx, s.vy, s.baseSize, s.size, s.fromSize, s.toSize].forEach(scale);
+  // Depth has no offset, the 3D view turns around the middle of the screen
+  [s.wz, s.vz, s.originZ, s.fromZ, s.toZ].forEach(scale);
+};
+
+/**
+ * The physics step, free of the DOM so it can run on either side of a worker boundary
+ * or headless under Node. One `step()` is one tick of the spring, parallax and breathing
+ * model; the loop runs a fixed number of them per second (see clock.ts). Given the same
+ * seed and the same calls, two simulations stay identical.
+ */
+export class ParticleSimulation {
+  store = new ParticleStore(0);
+  pointers: PointerState[] = [];
+  interaction: InteractionMode = 'repel';
+  audio: AudioLevels = { bass: 0, treble: 0, beat: 0 };
+  // prefers-reduced-motion: particles hold still at home and formations crossfade instead of flying
+  reducedMotion = false;
+  lights: LightSettings = { program: 'steady', speed: 1 };
+  // Ticks stepped so far
+  time = 0;
+  // Only in the 3D view
+  camera: OrbitCamera | null = null;
+  private random: Random;
+  // Canvas size the current formation was laid out for
+  private layout: LayoutSize;
+
+  constructor(public settings: ParticleSettings, public width: number, public height: number, seed: number) {
+    this.layout = { width, height };
+    this.random = createRandom(seed);
+  }
+
+  // Morphs the current particles onto a new formation (packed specs laid out for `layout`)
+  setSpecs(specs: Float32Array, frames: number, layout: LayoutSize) {
+    this.layout = layout;
+    // The canvas may have been resized while the formation was being built
+    const { scale, offsetX, offsetY } = fitTransform(layout, this);
+    for (let o = 0; o < specs.length; o += SPEC_STRIDE) {
+      specs[o] = specs[o] * scale + offsetX;
+      specs[o + 1] = specs[o + 1] * scale + offsetY;
+      specs[o + 6] *= scale;
+      specs[o + 9] *= scale;
+    }
+    this.store = this.reducedMotion
+      ? crossfadeParticles(this.store, specs, frames, this.width, this.height, this.random)
+      : morphParticles(this.store, specs, frames, this.width, this.height, this.random);
+  }
+
+  // Keeps the formation, refitted to the new size
+  resize(width: number, height: number) {
+    const before = fitTransform(this.layout, this);
+    this.width = width;
+    this.height = height;
+    remapStore(this.store, before, fitTransform(this.layout, this));
+  }
+
+  // Switches between the flat view and the orbiting 3D one. The camera keeps its angle
+  // while the view stays 3D.
+  setView(view: View3DSettings) {
+    if (!view.enabled) {
+      this.camera = null;
+      return;
+    }
+    this.camera ??= new OrbitCamera();
+    this.camera.autoRotate = view.autoRotate;
+  }
+
+  orbit(dx: number, dy: number) {
+    this.camera?.orbit(dx, dy);
+  }
+
+  zoom(factor: number) {
+    this.camera?.zoomBy(factor);
+  }
+
+  // Screen positions for the renderer in the 3D view, null in the flat one
+  project(): Projection | null {
+    return this.camera ? this.camera.project(this.store, this.width, this.height) : null;
+  }
+
+  // Throws every particle away from home so it visibly flies back in
+  scatter(range: number) {
+    if (this.reducedMotion) return;
+    const s = this.store;
+    for (let i = 0; i < s.count; i++) {
+      s.x[i] = s.originX[i] + (this.random() - 0.5) * range;
+      s.y[i] = s.originY[i] + (this.random() - 0.5) * range;
+      if (this.camera) s.wz[i] = s.originZ[i] + (this.random() - 0.5) * range;
+      s.vx[i] = 0;
+      s.vy[i] = 0;
+      s.vz[i] = 0;
+    }
+  }
+
+  // Blasts particles around (x, y) outward, the springs bring them home again.
+  // The 3D view has no screen position to blast from, taps steer the camera there.
+  burst(x: number, y: number) {
+    if (this.reducedMotion || this.camera) return;
+    const { x: px, y: py, vx, vy, count } = this.store;
+    const radius = this.settings.pointerRadius * BURST_RADIUS_SCALE;
+    const strength = this.settings.pointerStrength * BURST_STRENGTH_SCALE;
+    for (let i = 0; i < count; i++) {
+      const dx = px[i] - x;
+      const dy = py[i] - y;
+      const distance = Math.hypot(dx, dy);
+      if (distance >= radius || distance === 0) continue;
+      const force = ((radius - distance) / radius) * strength;
+      vx[i] += (dx / distance) * force;
+      vy[i] += (dy / distance) * force;
+    }
+  }
+
+  // Ornament halo for the renderer: treble and beats make it flare
+  get glow() {
+    return 1 + this.audio.treble * 1.5 + this.audio.beat;
+  }
+
+  step() {
+    const s = this.store;
+    // Arrays pulled into locals once per tick, the loop below is the hot path
+    const { x, y, vx, vy, originX, originY, z, wz, vz, originZ, phase, baseSize, size, flags } = s;
+    const { baseR, baseG, baseB, baseAlpha, r, g, b, alpha } = s;
+    const { ease, friction, pointerRadius, pointerStrength } = this.settings;
+    const still = this.reducedMotion;
+    // Bass deepens the breathing
+    const breathIntensity = still ? 0 : this.settings.breathIntensity + this.audio.bass * AUDIO_BREATH_RANGE;
+    const twinkle = still ? 0 : this.audio.beat * BEAT_TWINKLE;
+    const pointers = this.pointers;
+    const time = this.time;
+    const camera = this.camera;
+    // In the 3D view the camera gives the depth, and dragging turns it instead of pushing particles
+    const flat = !camera;
+
+    // Parallax follows the pointers (their average with several), or sways on its own when idle
+    let parallaxShiftX = still || !flat ? 0 : Math.sin(time * 0.01) * 10;
+    let parallaxShiftY = still || !flat ? 0 : Math.cos(time * 0.01) * 10;
+    if (pointers.length > 0 && !still && flat) {
+      const sum = pointers.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+      parallaxShiftX = (sum.x / pointers.length - this.width / 2) * 0.05;
+      parallaxShiftY = (sum.y / pointers.length - this.height / 2) * 0.05;
+    }
+    // A burst is a one-off impulse, held pointers don't push
+    const pushing = this.interaction !== 'burst' && pointerStrength > 0 && !still && flat;
+    const expired = advanceMorphs(s);
+
+    for (let i = 0; i < s.count; i++) {
+      // 1. 3D Parallax & Breathing
+      const depth = z[i];
+      const parallaxX = parallaxShiftX * depth;
+      const parallaxY = parallaxShiftY * depth;
+      const breathX = Math.sin(time * 0.02 + phase[i]) * breathIntensity;
+      const breathY = Math.cos(time * 0.02 + phase[i]) * breathIntensity;
+
+      const targetX = originX[i] + parallaxX + breathX;
+      const targetY = originY[i] + parallaxY + breathY;
+
+      let velocityX = vx[i] + (targetX - x[i]) * ease;
+      let velocityY = vy[i] + (targetY - y[i]) * ease;
+
+      // 2. Pointer Interaction, every pointer applies its own force
+      if (pushing) {
+        for (let p = 0; p < pointers.length; p++) {
+          const dx = pointers[p].x - x[i];
+          const dy = pointers[p].y - y[i];
+          const distance = Math.hypot(dx, dy);
+          if (distance >= pointerRadius || distance === 0) continue;
+
+          const force = ((pointerRadius - distance) / pointerRadius) * pointerStrength;
+          const ux = dx / distance;
+          const uy = dy / distance;
+          if (this.interaction === 'repel') {
+            velocityX -= ux * force;
+            velocityY -= uy * force;
+          } else if (this.interaction === 'attract') {
+            velocityX += ux * force;
+            velocityY += uy * force;
+          } else {
+            // Swirl: around the pointer, counter-clockwise on screen
+            velocityX += (uy + ux * SWIRL_PULL) * force;
+            velocityY += (-ux + uy * SWIRL_PULL) * force;
+          }
+        }
+      }
+
+      // 3. Physics (Spring System) with velocity damping
+      velocityX *= friction;
+      velocityY *= friction;
+      vx[i] = velocityX;
+      vy[i] = velocityY;
+      x[i] += velocityX;
+      y[i] += velocityY;
+      // Depth springs home the same way, only the 3D view shows it
+      vz[i] = (vz[i] + (originZ[i] - wz[i]) * ease) * friction;
+      wz[i] += vz[i];
+
+      // 4. Visual Depth Scaling, the 3D view's camera scales by distance instead
+      let scale = flat ? 1 + depth * 0.3 : 1;
+      // Beats twinkle the ornaments, each at its own phase
+      if (twinkle > 0 && (flags[i] & ORNAMENT)) scale *= 1 + twinkle * (0.5 + 0.5 * Math.sin(phase[i] * 7 + time * 0.3));
+      size[i] = Math.max(0.1, baseSize[i] * scale);
+
+      // 5. Resting look, the light program below animates the string lights on top of it
+      r[i] = baseR[i];
+      g[i] = baseG[i];
+      b[i] = baseB[i];
+      alpha[i] = baseAlpha[i];
+    }
+    // Blinking and chasing lights are motion too
+    if (!still) applyLightProgram(s, this.lights, time);
+    if (camera && !still) camera.tick();
+
+    if (expired) s.compact();
+    this.time++;
+  }
+}
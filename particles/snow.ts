@@ -0,0 +1,198 @@
+import { SnowSettings } from '../types';
+import { ParticleSpec } from './spec';
+import { PointerState } from './simulation';
+import { Random } from './random';
+
+interface Flake {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  size: number;
+  phase: number;
+  // Front flakes are drawn above the main particles, bigger and faster for depth
+  front: boolean;
+  // Ticks left before a settled flake melts, 0 while falling
+  settledFor: number;
+}
+
+// Resolution of the surface grid flakes can land on
+const CELL = 8;
+// Chance per tick that a flake crossing the top of the scene comes to rest there
+const SETTLE_CHANCE = 0.15;
+const MAX_SETTLED = 400;
+const SETTLED_FRAMES = { min: 600, max: 1200 };
+const MELT_FRAMES = 60;
+// Falling flakes per million square pixels at full density
+const FLAKES_PER_MEGAPIXEL = 200;
+const FRONT_SHARE = 0.35;
+// How far flakes notice the pointer when drifting towards it
+const DRIFT_RANGE = 250;
+
+/**
+ * A light snowfall drawn on two Canvas2D layers around the main particles.
+ * Flakes can land on the upper edges of the current formation, using the particles'
+ * home positions as the collision surface, and pointers brush them off again.
+ */
+export class SnowField {
+  private flakes: Flake[] = [];
+  private surface = new Uint8Array(0);
+  private columns = 0;
+  private rows = 0;
+  private time = 0;
+
+  constructor(private settings: SnowSettings, private width: number, private height: number, private random: Random) {}
+
+  private between(min: number, max: number) {
+    return min + this.random() * (max - min);
+  }
+
+  setSettings(settings: SnowSettings) {
+    this.settings = settings;
+  }
+
+  resize(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  // Rebuilds the landing surface from a formation's home positions. Flakes resting on the old one fall.
+  setSurface(specs: ParticleSpec[]) {
+    this.columns = Math.ceil(this.width / CELL);
+    this.rows = Math.ceil(this.height / CELL);
+    const occupied = new Uint8Array(this.columns * this.rows);
+    specs.forEach(spec => {
+      if (spec.alpha < 0.3) return;
+      const column = Math.floor(spec.x / CELL);
+      const row = Math.floor(spec.y / CELL);
+      if (column < 0 || row < 0 || column >= this.columns || row >= this.rows) return;
+      occupied[row * this.columns + column] = 1;
+    });
+
+    // Only cells with open air above them hold snow
+    this.surface = new Uint8Array(occupied.length);
+    for (let i = 0; i < occupied.length; i++) {
+      if (occupied[i] && (i < this.columns || !occupied[i - this.columns])) this.surface[i] = 1;
+    }
+
+    this.flakes.forEach(flake => { flake.settledFor = 0; });
+  }
+
+  step(pointers: PointerState[], pointerRadius: number) {
+    const { density, wind, flakeSize, drift } = this.settings;
+    const target = Math.round((this.width * this.height) / 1e6 * FLAKES_PER_MEGAPIXEL * density);
+
+    let falling = 0;
+    let settled = 0;
+    this.flakes.forEach(flake => { if (flake.settledFor > 0) settled++; else falling++; });
+    // Only an empty sky fills all at once, later flakes come in from above the screen
+    const anywhere = this.flakes.length === 0;
+    for (; falling < target; falling++) this.flakes.push(this.spawn(flakeSize, anywhere));
+
+    this.flakes = this.flakes.filter(flake => {
+      if (flake.settledFor > 0) {
+        flake.settledFor--;
+        // Pointers sweep resting snow away
+        const brushed = pointers.find(p => Math.hypot(p.x - flake.x, p.y - flake.y) < pointerRadius);
+        if (brushed) {
+          const dx = flake.x - brushed.x;
+          flake.settledFor = 0;
+          flake.vx = Math.sign(dx || 1) * this.between(1, 3);
+          flake.vy = this.between(-2, -0.5);
+        }
+        return flake.settledFor > 0 || brushed !== undefined;
+      }
+
+      const depth = flake.front ? 1.3 : 0.8;
+      const fallSpeed = (0.4 + flake.size * 0.25) * depth;
+      flake.vy += (fallSpeed - flake.vy) * 0.05;
+      flake.vx += (wind * depth - flake.vx) * 0.02;
+
+      if (drift && pointers.length > 0) {
+        const nearest = pointers.reduce((a, b) =>
+          Math.hypot(a.x - flake.x, a.y - flake.y) < Math.hypot(b.x - flake.x, b.y - flake.y) ? a : b);
+        const dx = nearest.x - flake.x;
+        const dy = nearest.y - flake.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance < DRIFT_RANGE && distance > 1) {
+          flake.vx += (dx / distance) * 0.03;
+          flake.vy += (dy / distance) * 0.015;
+        }
+      }
+
+      flake.x += flake.vx + Math.sin(this.time * 0.02 + flake.phase) * 0.4;
+      flake.y += flake.vy;
+
+      if (settled < MAX_SETTLED && this.isSurface(flake.x, flake.y) && this.random() < SETTLE_CHANCE) {
+        flake.settledFor = Math.round(this.between(SETTLED_FRAMES.min, SETTLED_FRAMES.max));
+        flake.vx = 0;
+        flake.vy = 0;
+        settled++;
+        return true;
+      }
+
+      // Gone off screen: surplus flakes disappear, the rest start over at the top
+      const margin = flake.size * 2 + Math.abs(this.windShift()) + 10;
+      if (flake.y > this.height + margin || flake.x < -margin || flake.x > this.width + margin) {
+        if (falling > target) {
+          falling--;
+          return false;
+        }
+        Object.assign(flake, this.spawn(flakeSize, false));
+      }
+      return true;
+    });
+
+    this.time++;
+  }
+
+  // Background flakes go on `back` (seen behind the particles), front and resting ones on `front`
+  draw(back: CanvasRenderingContext2D, front: CanvasRenderingContext2D) {
+    back.clearRect(0, 0, back.canvas.width, back.canvas.height);
+    front.clearRect(0, 0, front.canvas.width, front.canvas.height);
+    back.fillStyle = 'rgba(255, 255, 255, 0.35)';
+    front.fillStyle = 'rgba(255, 255, 255, 0.85)';
+
+    back.beginPath();
+    front.beginPath();
+    this.flakes.forEach(flake => {
+      const ctx = flake.front || flake.settledFor > 0 ? front : back;
+      // Melting flakes shrink away
+      const melt = flake.settledFor > 0 ? Math.min(1, flake.settledFor / MELT_FRAMES) : 1;
+      const radius = flake.size * melt;
+      ctx.moveTo(flake.x + radius, flake.y);
+      ctx.arc(flake.x, flake.y, radius, 0, Math.PI * 2);
+    });
+    back.fill();
+    front.fill();
+  }
+
+  private isSurface(x: number, y: number) {
+    const column = Math.floor(x / CELL);
+    const row = Math.floor(y / CELL);
+    if (column < 0 || row < 0 || column >= this.columns || row >= this.rows) return false;
+    return this.surface[row * this.columns + column] === 1;
+  }
+
+  // Flakes start upwind so the wind carries them across the whole width
+  private windShift() {
+    return this.settings.wind * this.height * 0.3;
+  }
+
+  // New flakes start anywhere on screen the first time, afterwards just above it
+  private spawn(flakeSize: number, anywhere: boolean): Flake {
+    const front = this.random() < FRONT_SHARE;
+    const size = flakeSize * this.between(0.5, 1) * (front ? 1.3 : 0.8);
+    const windShift = this.windShift();
+    return {
+      x: this.between(-windShift, this.width - windShift),
+      y: anywhere ? this.between(-this.height * 0.1, this.height) : -size * 2,
+      vx: 0,
+      vy: 0,
+      size,
+      phase: this.between(0, Math.PI * 2),
+      front,
+      settledFor: 0
+    };
+  }
+}
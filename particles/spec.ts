@@ -0,0 +1,36 @@
+import { RGB } from '../types';
+import { SPEC_STRIDE } from './ParticleStore';
+
+// Where a particle should end up and how it should look there.
+// Scene builders produce these, the simulation turns them into (or morphs existing) particles.
+export interface ParticleSpec {
+  x: number;
+  y: number;
+  rgb: RGB;
+  alpha: number;
+  size: number;
+  isOrnament: boolean;
+  // Makes it a string light animated by the light program, at this place (0 to 1) along its string
+  light?: number;
+  // Depth in the 3D view, in pixels like x and y and positive away from the viewer. Flat scenes leave it out.
+  z?: number;
+}
+
+// Flattens specs into one transferable buffer for the simulation
+export const packSpecs = (specs: ParticleSpec[]): Float32Array => {
+  const packed = new Float32Array(specs.length * SPEC_STRIDE);
+  specs.forEach((spec, i) => {
+    const o = i * SPEC_STRIDE;
+    packed[o] = spec.x;
+    packed[o + 1] = spec.y;
+    packed[o + 2] = spec.rgb.r;
+    packed[o + 3] = spec.rgb.g;
+    packed[o + 4] = spec.rgb.b;
+    packed[o + 5] = spec.alpha;
+    packed[o + 6] = spec.size;
+    packed[o + 7] = spec.isOrnament ? 1 : 0;
+    packed[o + 8] = spec.light ?? -1;
+    packed[o + 9] = spec.z ?? 0;
+  });
+  return packed;
+};
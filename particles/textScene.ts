@@ -0,0 +1,94 @@
+import { RGB, TextSceneOptions } from '../types';
+import { MESSAGE_FONTS, TEXT_PALETTES } from '../constants';
+import { ParticleSpec } from './spec';
+import { sampleGrid } from './sampling';
+import { Random } from './random';
+
+// Share of the viewport the text block may fill
+const MAX_WIDTH_RATIO = 0.85;
+const MAX_HEIGHT_RATIO = 0.6;
+const LINE_HEIGHT = 1.2;
+const MEASURE_SIZE = 100;
+
+// A few text particles glow like ornaments so the lettering twinkles
+const SPARKLE_CHANCE = 0.04;
+
+const mix = (a: RGB, b: RGB, t: number): RGB => ({
+  r: Math.round(a.r + (b.r - a.r) * t),
+  g: Math.round(a.g + (b.g - a.g) * t),
+  b: Math.round(a.b + (b.b - a.b) * t)
+});
+
+// Evenly spaced stops, t in [0, 1]
+const gradientAt = (colors: RGB[], t: number) => {
+  if (colors.length === 1) return colors[0];
+  const scaled = Math.min(0.9999, Math.max(0, t)) * (colors.length - 1);
+  const index = Math.floor(scaled);
+  return mix(colors[index], colors[index + 1], scaled - index);
+};
+
+const splitLines = (text: string) => {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  return lines.length > 0 ? lines : [' '];
+};
+
+/**
+ * Rasterizes the text with the app's web fonts and samples it into particle specs.
+ * The font size is chosen so the widest line and the full block fit the viewport.
+ */
+export const buildTextSpecs = async (
+  options: TextSceneOptions,
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  gap: number,
+  size: number,
+  random: Random
+): Promise<ParticleSpec[]> => {
+  const family = MESSAGE_FONTS.find(f => f.id === options.font)?.family ?? 'serif';
+  const palette = (TEXT_PALETTES.find(p => p.id === options.paletteId) ?? TEXT_PALETTES[0]).colors;
+  const lines = splitLines(options.text);
+
+  // Canvas falls back to a system font if the web font hasn't been fetched yet
+  try {
+    await document.fonts.load(`${MEASURE_SIZE}px ${family}`, options.text);
+  } catch (e) {
+    console.warn("Could not load font for text particles", e);
+  }
+
+  // --- Auto-fit ---
+  ctx.font = `${MEASURE_SIZE}px ${family}`;
+  const widest = Math.max(...lines.map(line => ctx.measureText(line).width), 1);
+  const byWidth = (width * MAX_WIDTH_RATIO) / widest;
+  const byHeight = (height * MAX_HEIGHT_RATIO) / (lines.length * LINE_HEIGHT);
+  const fontSize = Math.min(MEASURE_SIZE * byWidth, byHeight);
+
+  // --- Rasterize ---
+  ctx.canvas.width = width;
+  ctx.canvas.height = height;
+  ctx.clearRect(0, 0, width, height);
+  ctx.font = `${fontSize}px ${family}`;
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const firstLineY = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, firstLineY + i * lineHeight));
+
+  const blockWidth = Math.min(width, widest * (fontSize / MEASURE_SIZE));
+  const blockLeft = (width - blockWidth) / 2;
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  ctx.clearRect(0, 0, width, height);
+
+  // --- Sample ---
+  return sampleGrid(imageData, gap, (x, y, _r, _g, _b, a) => {
+    if (a < 128) return null;
+    const rgb = options.coloring === 'gradient'
+      ? gradientAt(palette, (x - blockLeft) / blockWidth)
+      : palette[Math.floor(random() * palette.length)];
+    const isSparkle = random() < SPARKLE_CHANCE;
+    return { x, y, rgb, alpha: 1, size: isSparkle ? size * 1.3 : size, isOrnament: isSparkle };
+  });
+};
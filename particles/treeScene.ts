@@ -0,0 +1,135 @@
+import { ParticlePalette, ParticleSettings, TreeOptions } from '../types';
+import { DEFAULT_TREE, ORNAMENT_PALETTES, THEME_PALETTE_ID } from '../constants';
+import { ParticleSpec } from './spec';
+import { LayoutSize } from './layout';
+import { Random } from './random';
+import type { SceneGenerator } from './sceneGenerators';
+import { between, inDisc, inShape, onOutline, pick, starPolygon } from './shapes';
+
+// Times each garland winds around the tree on its way up
+const GARLAND_TURNS = 4;
+const BULBS_PER_GARLAND = 48;
+// Faint wire particles between two bulbs
+const WIRE_PER_BULB = 3;
+// Seen slightly from above, a garland dips in front of the tree and rises behind it
+const GARLAND_TILT = 0.12;
+
+// Flat, the tree is its silhouette seen from the front. Solid, it is a real cone with depth,
+// for the 3D view: needles fill it, baubles hang near its surface and garlands wind around it.
+const buildTree = (
+  { width, height }: LayoutSize,
+  settings: ParticleSettings,
+  options: TreeOptions,
+  { foliage, lights, topper }: ParticlePalette,
+  random: Random,
+  solid: boolean
+): ParticleSpec[] => {
+  const { tiers, aspect, needles, ornaments, garlands, star } = options;
+  const palette = options.paletteId === THEME_PALETTE_ID
+    ? lights
+    : (ORNAMENT_PALETTES.find(p => p.id === options.paletteId) ?? ORNAMENT_PALETTES[0]).colors;
+  const particles: ParticleSpec[] = [];
+  const cx = width / 2;
+  const cy = height * 0.85;
+  const treeHeight = Math.min(height * 0.7, 600);
+  const maxRadius = Math.min((treeHeight * aspect) / 2, width * 0.4);
+  const topY = cy - treeHeight;
+
+  // Half width of the branches at a share of the height, 0 at the base and 1 at the tip
+  const radiusAt = (hPercent: number) => {
+    const levelFactor = 1 - hPercent;
+    if (tiers <= 1) return maxRadius * levelFactor * (1 + 0.15 * Math.sin(hPercent * 25));
+    // Each tier flares out at its lower edge and draws in towards the one above
+    const withinTier = (hPercent * tiers) % 1;
+    return maxRadius * levelFactor * (0.6 + 0.4 * (1 - withinTier));
+  };
+
+  // Offset from the trunk within `radius`: across the silhouette when flat, around the
+  // trunk when solid, `minShare` of the radius out at least
+  const around = (radius: number, minShare: number) => {
+    if (!solid) return { x: (random() - 0.5) * 2 * radius, z: undefined };
+    const angle = random() * Math.PI * 2;
+    // Square root spreads them evenly over the cross-section
+    const r = radius * Math.sqrt(minShare * minShare + random() * (1 - minShare * minShare));
+    return { x: Math.cos(angle) * r, z: Math.sin(angle) * r };
+  };
+
+  // --- Needles ---
+  for (let i = 0; i < needles; i++) {
+    const hPercent = 1 - Math.pow(random(), 0.7);
+    const y = cy - hPercent * treeHeight;
+    const offset = around(radiusAt(hPercent), 0);
+    const alpha = 0.8 + random() * 0.2;
+    particles.push({ x: cx + offset.x, y, z: offset.z, rgb: between(random, foliage), alpha, size: settings.size, isOrnament: false });
+  }
+
+  // --- Ornaments ---
+  for (let i = 0; i < ornaments; i++) {
+    const hPercent = random() * 0.9;
+    const y = cy - hPercent * treeHeight;
+    const offset = around(radiusAt(hPercent) * 0.9, 0.7);
+    particles.push({ x: cx + offset.x, y, z: offset.z, rgb: pick(random, palette), alpha: 1, size: settings.size * 1.5, isOrnament: true, light: random() });
+  }
+
+  // --- Garlands ---
+  for (let garland = 0; garland < garlands; garland++) {
+    const offset = (garland / garlands) * Math.PI * 2;
+    const steps = BULBS_PER_GARLAND * (WIRE_PER_BULB + 1);
+    for (let step = 0; step < steps; step++) {
+      const u = step / (steps - 1);
+      const hPercent = 0.04 + u * 0.86;
+      const angle = offset + u * GARLAND_TURNS * Math.PI * 2;
+      const radius = maxRadius * (1 - hPercent) * 0.95;
+      const front = Math.cos(angle);
+      const x = cx + Math.sin(angle) * radius;
+      // A solid tree has a real far side, the camera tilts and dims it
+      const y = cy - hPercent * treeHeight + (solid ? 0 : front * radius * GARLAND_TILT);
+      const z = solid ? -front * radius : undefined;
+      // The far side shows through the branches, dimmer
+      const depth = solid || front > 0 ? 1 : 0.45;
+
+      if (step % (WIRE_PER_BULB + 1) === 0) {
+        const bulb = step / (WIRE_PER_BULB + 1);
+        const rgb = palette[bulb % palette.length];
+        particles.push({ x, y, z, rgb, alpha: depth, size: settings.size * 1.3, isOrnament: true, light: bulb / (BULBS_PER_GARLAND - 1) });
+      } else {
+        particles.push({ x, y, z, rgb: { r: 90, g: 110, b: 70 }, alpha: 0.35 * depth, size: settings.size * 0.6, isOrnament: false });
+      }
+    }
+  }
+
+  // --- Star ---
+  if (star === 'star') {
+    const outer = Math.max(14, treeHeight * 0.055);
+    const points = starPolygon(cx, topY, outer, outer * 0.42);
+    for (let i = 0; i < 70; i++) {
+      const [x, y] = inShape(random, points);
+      particles.push({ x, y, rgb: topper, alpha: 1, size: settings.size * 1.1, isOrnament: true });
+    }
+    for (let i = 0; i < 30; i++) {
+      const [x, y] = onOutline(random, points);
+      particles.push({ x, y, rgb: topper, alpha: 1, size: settings.size * 1.2, isOrnament: true });
+    }
+  } else if (star === 'glow') {
+    for (let i = 0; i < 60; i++) {
+      const [x, y] = inDisc(random, cx, topY, 15);
+      particles.push({ x, y, rgb: topper, alpha: 1, size: settings.size * 1.2, isOrnament: true });
+    }
+  }
+
+  return particles;
+};
+
+/**
+ * The classic tree: a cone of needles, baubles between the branches, garlands of string
+ * lights spiralling up and a star on top. Baubles and bulbs are lights, so they follow the
+ * light program; bulbs are numbered along their garland, which is what a chase runs along.
+ */
+export const treeScene: SceneGenerator<TreeOptions> = {
+  id: 'tree',
+  label: 'Tree',
+  description: "A Christmas tree made of softly glowing green particles, hung with golden ornaments",
+  defaultOptions: DEFAULT_TREE,
+  generate: (size, settings, options = DEFAULT_TREE, palette, random) => buildTree(size, settings, options, palette, random, false),
+  generateSolid: (size, settings, options = DEFAULT_TREE, palette, random) => buildTree(size, settings, options, palette, random, true)
+};
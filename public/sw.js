@@ -0,0 +1,46 @@
+// Keeps the card working offline. Built files have hashed names, so this worker doesn't
+// know them up front: the page sends everything it loaded (see utils/serviceWorker.ts) and
+// anything fetched later is cached on the way through.
+const CACHE = 'noel-dreamscape-v1';
+// Relative to this file, so the app can be served from a sub-path
+const SHELL = ['./', 'manifest.webmanifest', 'icon.svg', 'icon-192.png', 'icon-512.png', 'tree.jpg'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'cache-urls') return;
+  const urls = event.data.urls.filter(url => new URL(url).origin === self.location.origin);
+  event.waitUntil(caches.open(CACHE).then(cache => Promise.all(urls.map(url => cache.add(url).catch(() => undefined)))));
+});
+
+const fromNetwork = async request => {
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // Pages prefer the network so a new version shows up, and fall back to the cached app
+  if (request.mode === 'navigate') {
+    event.respondWith(fromNetwork(request).catch(() => caches.match('./')));
+    return;
+  }
+
+  event.respondWith(caches.match(request).then(cached => cached ?? fromNetwork(request)));
+});
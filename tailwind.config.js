@@ -0,0 +1,21 @@
+// Theme colors and fonts live in CSS variables (set by utils/theme.ts), so themes switch at runtime
+const themeColor = name => `rgb(var(--${name}) / <alpha-value>)`;
+const themeShades = name => Object.fromEntries([100, 200, 300, 400, 500, 900].map(step => [step, themeColor(`${name}-${step}`)]));
+
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.{ts,tsx}', './{components,hooks,particles,utils}/**/*.{ts,tsx}'],
+  theme: {
+    extend: {
+      colors: {
+        accent: themeShades('accent'),
+        highlight: themeShades('highlight'),
+        backdrop: { DEFAULT: themeColor('backdrop'), soft: themeColor('backdrop-soft') }
+      },
+      fontFamily: {
+        display: 'var(--font-display)',
+        eyebrow: 'var(--font-eyebrow)'
+      }
+    }
+  }
+};
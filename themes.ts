@@ -0,0 +1,141 @@
+import { RGB, Theme, ThemeShades } from './types';
+
+const rgb = ([r, g, b]: [number, number, number]): RGB => ({ r, g, b });
+
+// Tailwind's 100, 200, 300, 400, 500 and 900 steps of one color
+const shades = (...steps: [number, number, number][]): ThemeShades => {
+  const [s100, s200, s300, s400, s500, s900] = steps.map(rgb);
+  return { 100: s100, 200: s200, 300: s300, 400: s400, 500: s500, 900: s900 };
+};
+
+const EMERALD = shades([209, 250, 229], [167, 243, 208], [110, 231, 183], [52, 211, 153], [16, 185, 129], [6, 78, 59]);
+const AMBER = shades([254, 243, 199], [253, 230, 138], [252, 211, 77], [251, 191, 36], [245, 158, 11], [120, 53, 15]);
+const SKY = shades([224, 242, 254], [186, 230, 253], [125, 211, 252], [56, 189, 248], [14, 165, 233], [12, 74, 110]);
+const RED = shades([254, 226, 226], [254, 202, 202], [252, 165, 165], [248, 113, 113], [239, 68, 68], [127, 29, 29]);
+const YELLOW = shades([254, 249, 195], [254, 240, 138], [253, 224, 71], [250, 204, 21], [234, 179, 8], [113, 63, 18]);
+const PINK = shades([252, 231, 243], [251, 207, 232], [249, 168, 212], [244, 114, 182], [236, 72, 153], [131, 24, 67]);
+const ROSE = shades([255, 228, 230], [254, 205, 211], [253, 164, 175], [251, 113, 133], [244, 63, 94], [136, 19, 55]);
+const VIOLET = shades([237, 233, 254], [221, 214, 254], [196, 181, 253], [167, 139, 250], [139, 92, 246], [76, 29, 149]);
+
+const SERIF = "'Playfair Display', serif";
+const CLASSIC = "'Cinzel', serif";
+const SCRIPT = "'Pinyon Script', cursive";
+const ROUNDED = "'Fredoka', sans-serif";
+
+export const DEFAULT_THEME_ID = 'christmas';
+
+export const THEMES: Theme[] = [
+  {
+    id: 'christmas',
+    name: 'Christmas',
+    accent: EMERALD,
+    highlight: AMBER,
+    background: { r: 2, g: 6, b: 23 },
+    surface: { r: 15, g: 23, b: 42 },
+    trail: { r: 2, g: 6, b: 23, a: 0.4 },
+    fonts: { display: SERIF, eyebrow: CLASSIC },
+    particles: {
+      foliage: [{ r: 20, g: 100, b: 40 }, { r: 60, g: 200, b: 80 }],
+      lights: [{ r: 220, g: 40, b: 40 }, { r: 255, g: 215, b: 0 }],
+      topper: { r: 255, g: 255, b: 200 }
+    },
+    strings: {
+      appName: 'Noël Dreamscape',
+      headline: 'Merry',
+      headlineEmphasis: 'Christmas',
+      prompt: 'Tap screen to open',
+      messageLabel: 'Christmas message'
+    }
+  },
+  {
+    id: 'new-year',
+    name: 'New Year',
+    accent: SKY,
+    highlight: YELLOW,
+    background: { r: 3, g: 7, b: 30 },
+    surface: { r: 17, g: 24, b: 54 },
+    trail: { r: 3, g: 7, b: 30, a: 0.35 },
+    fonts: { display: SERIF, eyebrow: CLASSIC },
+    particles: {
+      foliage: [{ r: 140, g: 150, b: 180 }, { r: 225, g: 230, b: 245 }],
+      lights: [{ r: 255, g: 215, b: 120 }, { r: 255, g: 255, b: 255 }, { r: 125, g: 211, b: 252 }],
+      topper: { r: 255, g: 236, b: 160 }
+    },
+    strings: {
+      appName: 'Midnight Sparkle',
+      headline: 'Happy',
+      headlineEmphasis: 'New Year',
+      prompt: 'Tap screen to ring it in',
+      messageLabel: 'New Year message'
+    }
+  },
+  {
+    id: 'lunar-new-year',
+    name: 'Lunar New Year',
+    accent: RED,
+    highlight: YELLOW,
+    background: { r: 26, g: 4, b: 6 },
+    surface: { r: 50, g: 12, b: 14 },
+    trail: { r: 26, g: 4, b: 6, a: 0.4 },
+    fonts: { display: SERIF, eyebrow: CLASSIC },
+    particles: {
+      foliage: [{ r: 150, g: 20, b: 30 }, { r: 235, g: 70, b: 50 }],
+      lights: [{ r: 255, g: 200, b: 40 }, { r: 255, g: 140, b: 30 }],
+      topper: { r: 255, g: 215, b: 0 }
+    },
+    strings: {
+      appName: 'Spring Festival',
+      headline: 'Happy',
+      headlineEmphasis: 'Lunar New Year',
+      prompt: 'Tap screen to open your red envelope',
+      messageLabel: 'Lunar New Year message'
+    }
+  },
+  {
+    id: 'valentine',
+    name: "Valentine's Day",
+    accent: PINK,
+    highlight: ROSE,
+    background: { r: 22, g: 4, b: 14 },
+    surface: { r: 45, g: 12, b: 30 },
+    trail: { r: 22, g: 4, b: 14, a: 0.4 },
+    fonts: { display: SCRIPT, eyebrow: CLASSIC },
+    particles: {
+      foliage: [{ r: 190, g: 40, b: 90 }, { r: 255, g: 130, b: 175 }],
+      lights: [{ r: 230, g: 30, b: 60 }, { r: 255, g: 240, b: 245 }],
+      topper: { r: 255, g: 200, b: 220 }
+    },
+    strings: {
+      appName: 'Sweetheart',
+      headline: 'Happy',
+      headlineEmphasis: "Valentine's Day",
+      prompt: 'Tap screen to open your card',
+      messageLabel: "Valentine's message"
+    }
+  },
+  {
+    id: 'birthday',
+    name: 'Birthday',
+    accent: VIOLET,
+    highlight: YELLOW,
+    background: { r: 12, g: 6, b: 28 },
+    surface: { r: 30, g: 20, b: 58 },
+    trail: { r: 12, g: 6, b: 28, a: 0.4 },
+    fonts: { display: ROUNDED, eyebrow: ROUNDED },
+    particles: {
+      foliage: [{ r: 90, g: 60, b: 200 }, { r: 170, g: 130, b: 255 }],
+      lights: [{ r: 255, g: 90, b: 90 }, { r: 255, g: 210, b: 80 }, { r: 120, g: 220, b: 255 }, { r: 120, g: 255, b: 160 }],
+      topper: { r: 255, g: 240, b: 150 }
+    },
+    strings: {
+      appName: 'Party Time',
+      headline: 'Happy',
+      headlineEmphasis: 'Birthday',
+      prompt: 'Tap screen to open',
+      messageLabel: 'Birthday message'
+    }
+  }
+];
+
+// Unknown ids get the default theme
+export const getTheme = (id: string) => THEMES.find(theme => theme.id === id) ?? THEMES[0];
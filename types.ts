@@ -4,10 +4,205 @@ export interface ParticleSettings {
   friction: number; // Movement smoothing
   ease: number; // Return to home speed
   breathIntensity: number; // Replaces hoverRadius, controls the range of the breathing motion
+  morphDuration: number; // Seconds particles take to fly to a new formation
+  pointerRadius: number; // Reach of each pointer's force, in pixels
+  pointerStrength: number; // How hard a pointer pushes or pulls
+}
+
+// What a finger or mouse does to nearby particles. 'burst' blasts them outward on tap.
+export type InteractionMode = 'repel' | 'attract' | 'swirl' | 'burst';
+
+// The falling snow layer around the particles
+export interface SnowSettings {
+  enabled: boolean;
+  density: number; // 0 to 1
+  wind: number; // Sideways pixels per frame, negative blows left
+  flakeSize: number; // Largest flake radius
+  drift: boolean; // Flakes drift gently towards the pointer
+}
+
+// The optional 3D view: particles get real depth and are seen through a perspective camera
+// the viewer drags to orbit and pinches to zoom
+export interface View3DSettings {
+  enabled: boolean;
+  autoRotate: boolean; // Slowly circles the scene, pausing while someone drags
+}
+
+// How the string lights animate: a gentle random flicker, a pulse running along the garland,
+// hues rotating around the tree, or every light breathing together
+export type LightProgram = 'steady' | 'twinkle' | 'chase' | 'cycle' | 'fade';
+
+export interface LightSettings {
+  program: LightProgram;
+  speed: number; // 1 is the natural pace, 0.25 to 3
+}
+
+// Topper of the tree: a five-pointed star, a round glow, or nothing
+export type TreeStar = 'star' | 'glow' | 'none';
+
+// Shape of the 'tree' scene
+export interface TreeOptions {
+  tiers: number; // 1 is a smooth cone, more stacks layers of branches
+  aspect: number; // Width of the cone over its height
+  needles: number; // Green particles making up the branches
+  ornaments: number; // Baubles hung between the branches
+  garlands: number; // Strings of lights spiralling around the tree
+  star: TreeStar;
+  paletteId: string; // Colors of the ornaments and lights, see ORNAMENT_PALETTES. 'theme' follows the theme.
+}
+
+// Music energy for the current frame, each 0 to 1. `beat` jumps to 1 on a bass hit and decays.
+export interface AudioLevels {
+  bass: number;
+  treble: number;
+  beat: number;
+}
+
+// A named, reusable set of particle settings
+export interface SettingsPreset {
+  name: string;
+  settings: ParticleSettings;
+  builtIn?: boolean;
+}
+
+// How a photo sits on screen. 'contain' fits it inside the frame, 'cover' fills the whole screen.
+export type PhotoFit = 'contain' | 'cover';
+
+// Share of the photo trimmed from each edge, 0 to 0.45
+export interface PhotoCrop {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface PhotoFraming {
+  fit: PhotoFit;
+  zoom: number; // 1 = exactly fits (or fills) the frame
+  focusX: number; // Point of the cropped, rotated photo kept at the center of the screen, 0 to 1
+  focusY: number;
+  rotation: 0 | 90 | 180 | 270; // Clockwise, in degrees
+  crop: PhotoCrop;
+}
+
+// One photo in the slideshow
+export interface Slide {
+  id: string;
+  src: string;
+  holdSeconds: number; // How long the photo stays assembled before dissolving into the next
+  framing: PhotoFraming;
+}
+
+// How the particles get from one story step to the next
+export type StoryTransition = 'morph' | 'scatter' | 'cut';
+
+// One step of a story: a formation, an optional caption over it, and what moves it on
+export interface StoryStep {
+  id: string;
+  mode: SceneMode;
+  sceneId: string; // Generator id for the 'generative' mode
+  image: string; // Photo for the 'image' mode
+  framing: PhotoFraming;
+  text: string; // Words for the 'text' mode, styled like the text scene
+  caption: string; // Card shown over the particles, empty for none
+  advance: 'tap' | 'timer';
+  seconds: number; // How long a 'timer' step stays before the next one
+  transition: StoryTransition; // Into this step
 }
 
 export interface RGB {
   r: number;
   g: number;
   b: number;
-}
\ No newline at end of file
+}
+
+export type SceneMode = 'generative' | 'image' | 'text';
+
+// Colors the generated scenes draw with
+export interface ParticlePalette {
+  foliage: [RGB, RGB]; // Darkest and brightest branch color, each channel picked in between
+  lights: RGB[]; // Ornaments and string lights
+  topper: RGB; // Star on top of the tree
+}
+
+// One UI color in the Tailwind shades the components use
+export interface ThemeShades {
+  100: RGB;
+  200: RGB;
+  300: RGB;
+  400: RGB;
+  500: RGB;
+  900: RGB;
+}
+
+export interface ThemeStrings {
+  appName: string; // Small caps above the headline, and the page title
+  headline: string;
+  headlineEmphasis: string; // Second part of the headline, set in italics
+  prompt: string; // Invitation to open the message
+  messageLabel: string; // Accessible name of the opened message
+}
+
+// Everything that makes the card look like one occasion or another
+export interface Theme {
+  id: string;
+  name: string;
+  accent: ThemeShades; // Main UI color, behind the accent-* classes
+  highlight: ThemeShades; // Panels and active controls, behind the highlight-* classes
+  background: RGB; // Page behind everything, behind bg-backdrop
+  surface: RGB; // Panels, behind bg-backdrop-soft
+  trail: RGB & { a: number }; // Particle background, painted at `a` each frame to leave trails
+  fonts: {
+    display: string; // CSS font-family of the headline
+    eyebrow: string; // CSS font-family of the app name
+  };
+  particles: ParticlePalette;
+  strings: ThemeStrings;
+}
+
+export interface ColorPalette {
+  id: string;
+  name: string;
+  colors: RGB[];
+}
+
+// How the 'image' variant picks pixels: a plain grid, edges only (Sobel), random pixels
+// weighted towards highlights, or Floyd–Steinberg dithering
+export type SamplingStyle = 'grid' | 'edges' | 'stochastic' | 'dither';
+
+export interface PhotoSamplingOptions {
+  style: SamplingStyle;
+  removeBackground: boolean; // Drop the area around the subject that matches the corner colors
+  backgroundTolerance: number; // RGB distance from the corner colors still counted as background
+  festivePalette: boolean; // Snap colors to reds, golds and greens
+}
+
+// How the 'text' variant colors its particles: a left-to-right blend of the
+// palette colors, or each particle picking one of them
+export type TextColoring = 'gradient' | 'palette';
+
+export interface TextSceneOptions {
+  text: string; // Lines separated by \n
+  font: MessageFont;
+  coloring: TextColoring;
+  paletteId: string;
+}
+
+// Font families defined in index.html
+export type MessageFont = 'romantic' | 'serif' | 'cinzel';
+
+// The texts shown on the Layer 3 overlay when the card is opened
+export interface LoveMessage {
+  headline: string;
+  subtitle: string;
+  quote: string;
+  tagline: string;
+  headlineFont: MessageFont;
+  subtitleFont: MessageFont;
+}
+
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  message: LoveMessage;
+}
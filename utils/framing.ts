@@ -0,0 +1,143 @@
+import { PhotoCrop, PhotoFraming } from '../types';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameLayout {
+  // Part of the source image that is drawn, in image pixels
+  source: Rect;
+  // Source pixels to screen pixels
+  scale: number;
+  // The rotated photo's box on screen, may reach past the frame
+  photo: Rect;
+  // Where the photo is allowed to show: the whole screen for 'cover', a centered box for 'contain'
+  frame: Rect;
+}
+
+// 'contain' keeps this share of the screen free on each side
+const FRAME_MARGIN = 0.1;
+// Crops never take more than this from an edge, so something of the photo is always left
+export const MAX_CROP = 0.45;
+
+const quarterTurns = (rotation: PhotoFraming['rotation']) => rotation / 90;
+
+// Crop edges are stored as the photo is displayed, the source image needs them before rotation
+const cropInSource = (crop: PhotoCrop, rotation: PhotoFraming['rotation']): PhotoCrop => {
+  const edges = [crop.left, crop.top, crop.right, crop.bottom];
+  const turns = quarterTurns(rotation);
+  const [left, top, right, bottom] = edges.map((_, i) => edges[(i + turns) % 4]);
+  return { left, top, right, bottom };
+};
+
+// The same framing after turning the photo a quarter clockwise: crop and focus turn with it
+export const rotateFraming = (framing: PhotoFraming): PhotoFraming => {
+  const { left, top, right, bottom } = framing.crop;
+  return {
+    ...framing,
+    rotation: ((framing.rotation + 90) % 360) as PhotoFraming['rotation'],
+    crop: { left: bottom, top: left, right: top, bottom: right },
+    focusX: 1 - framing.focusY,
+    focusY: framing.focusX
+  };
+};
+
+// Moves a photo of `length` to `ideal` along one axis, as far as the frame allows:
+// a photo bigger than the frame never uncovers it, a smaller one never leaves it
+const place = (ideal: number, start: number, size: number, length: number) => {
+  const a = start;
+  const b = start + size - length;
+  return Math.min(Math.max(a, b), Math.max(Math.min(a, b), ideal));
+};
+
+export const frameLayout = (
+  imageWidth: number,
+  imageHeight: number,
+  framing: PhotoFraming,
+  width: number,
+  height: number
+): FrameLayout => {
+  const crop = cropInSource(framing.crop, framing.rotation);
+  const source = {
+    x: imageWidth * Math.min(crop.left, MAX_CROP),
+    y: imageHeight * Math.min(crop.top, MAX_CROP),
+    width: imageWidth * Math.max(0.1, 1 - Math.min(crop.left, MAX_CROP) - Math.min(crop.right, MAX_CROP)),
+    height: imageHeight * Math.max(0.1, 1 - Math.min(crop.top, MAX_CROP) - Math.min(crop.bottom, MAX_CROP))
+  };
+
+  const sideways = framing.rotation === 90 || framing.rotation === 270;
+  const rotatedWidth = sideways ? source.height : source.width;
+  const rotatedHeight = sideways ? source.width : source.height;
+
+  const cover = framing.fit === 'cover';
+  const frame = cover
+    ? { x: 0, y: 0, width, height }
+    : { x: width * FRAME_MARGIN, y: height * FRAME_MARGIN, width: width * (1 - FRAME_MARGIN * 2), height: height * (1 - FRAME_MARGIN * 2) };
+  const fitScale = cover
+    ? Math.max(frame.width / rotatedWidth, frame.height / rotatedHeight)
+    : Math.min(frame.width / rotatedWidth, frame.height / rotatedHeight);
+  const scale = fitScale * framing.zoom;
+
+  const photoWidth = rotatedWidth * scale;
+  const photoHeight = rotatedHeight * scale;
+  // The focal point goes to the middle of the frame
+  const photo = {
+    x: place(frame.x + frame.width / 2 - framing.focusX * photoWidth, frame.x, frame.width, photoWidth),
+    y: place(frame.y + frame.height / 2 - framing.focusY * photoHeight, frame.y, frame.height, photoHeight),
+    width: photoWidth,
+    height: photoHeight
+  };
+
+  return { source, scale, photo, frame };
+};
+
+// Where the photo actually shows: its box clipped to the frame
+export const visibleRect = ({ photo, frame }: FrameLayout): Rect => {
+  const x = Math.max(photo.x, frame.x);
+  const y = Math.max(photo.y, frame.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(photo.x + photo.width, frame.x + frame.width) - x),
+    height: Math.max(0, Math.min(photo.y + photo.height, frame.y + frame.height) - y)
+  };
+};
+
+type FramedSource = HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+const sourceSize = (image: FramedSource) =>
+  image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+
+/**
+ * Draws `image` framed onto a `width` x `height` area of `ctx`, clipped to the frame.
+ * Returns the layout so callers can find the photo again, e.g. to sample only its pixels.
+ */
+export const drawFramed = (
+  ctx: CanvasRenderingContext2D,
+  image: FramedSource,
+  framing: PhotoFraming,
+  width: number,
+  height: number
+): FrameLayout => {
+  const size = sourceSize(image);
+  const layout = frameLayout(size.width, size.height, framing, width, height);
+  const { source, scale, photo, frame } = layout;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(frame.x, frame.y, frame.width, frame.height);
+  ctx.clip();
+  ctx.translate(photo.x + photo.width / 2, photo.y + photo.height / 2);
+  ctx.rotate((framing.rotation * Math.PI) / 180);
+  const w = source.width * scale;
+  const h = source.height * scale;
+  ctx.drawImage(image, source.x, source.y, source.width, source.height, -w / 2, -h / 2, w, h);
+  ctx.restore();
+
+  return layout;
+};
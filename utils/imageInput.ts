@@ -0,0 +1,75 @@
+// Loading photos from files, links and the camera, with errors worth showing to the sender
+
+export type ImageInputErrorKind = 'unreachable' | 'cors' | 'not-image' | 'camera';
+
+export class ImageInputError extends Error {
+  constructor(readonly kind: ImageInputErrorKind, message: string) {
+    super(message);
+    this.name = 'ImageInputError';
+  }
+}
+
+const CORS_MESSAGE = "That site doesn't let other pages use its images. Save the image and upload it instead.";
+
+const isWebUrl = (src: string) => /^https?:\/\//i.test(src);
+
+const tryLoad = (src: string, crossOrigin: boolean) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  if (crossOrigin) img.crossOrigin = "Anonymous";
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error(`Failed to load image: ${src}`));
+  img.src = src;
+});
+
+/**
+ * Loads an image whose pixels can be read back from a canvas. Images from other sites are
+ * requested with CORS; when that fails, loading once more without it tells a site that
+ * refuses CORS (the image loads, but only tainted) from one that is unreachable.
+ */
+export const loadReadableImage = async (src: string): Promise<HTMLImageElement> => {
+  if (!isWebUrl(src)) {
+    return tryLoad(src, false).catch(() => {
+      throw new ImageInputError('not-image', "That file couldn't be opened as an image.");
+    });
+  }
+  try {
+    return await tryLoad(src, true);
+  } catch {
+    const loadsWithoutCors = await tryLoad(src, false).then(() => true, () => false);
+    throw loadsWithoutCors
+      ? new ImageInputError('cors', CORS_MESSAGE)
+      : new ImageInputError('unreachable', "Couldn't load an image from that link. Check the address and your connection.");
+  }
+};
+
+// A canvas an image without CORS permission was drawn on throws on getImageData
+export const taintedCanvasError = () => new ImageInputError('cors', CORS_MESSAGE);
+
+// Checks a pasted or typed link before the scene switches to it. Returns the normalized URL.
+export const checkImageUrl = async (input: string): Promise<string> => {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new ImageInputError('unreachable', "That doesn't look like a web address.");
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ImageInputError('unreachable', "Only http and https links can be loaded.");
+  }
+  await loadReadableImage(url.href);
+  return url.href;
+};
+
+export const imageFiles = (files: Iterable<File>) => Array.from(files).filter(file => file.type.startsWith('image/'));
+
+// Readable reasons for getUserMedia failures
+export const cameraError = (e: unknown) => {
+  const name = e instanceof DOMException ? e.name : '';
+  if (name === 'NotAllowedError') return new ImageInputError('camera', "Camera access was blocked. Allow it in your browser's site settings to take a photo.");
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return new ImageInputError('camera', "No camera was found on this device.");
+  if (name === 'NotReadableError') return new ImageInputError('camera', "The camera is in use by another app.");
+  return new ImageInputError('camera', "The camera couldn't be started.");
+};
+
+export const errorMessage = (e: unknown) =>
+  e instanceof ImageInputError ? e.message : "Something went wrong while loading the photo.";
@@ -0,0 +1,45 @@
+import { DEFAULT_SCENE, SharedScene, decodeSharedScene, encodeSharedScene, hasSharedScene, readSharedSceneFromHash } from './shareLink';
+
+const STORAGE_KEY = 'noel-dreamscape:last-scene';
+
+// The scene on screen when the app was last used. Stored like a share link, so it is
+// validated the same way when read back; an uploaded photo can't travel in it and is
+// kept by its photo library id instead.
+export interface LastScene {
+  scene: SharedScene;
+  photoId: string | null;
+}
+
+export const loadLastScene = (): LastScene | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    if (typeof parsed.scene !== 'string') return null;
+    return {
+      scene: decodeSharedScene(parsed.scene),
+      photoId: typeof parsed.photoId === 'string' ? parsed.photoId : null
+    };
+  } catch (e) {
+    console.warn("Could not read the last scene", e);
+    return null;
+  }
+};
+
+export const storeLastScene = ({ scene, photoId }: LastScene) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ scene: encodeSharedScene(scene), photoId }));
+  } catch (e) {
+    console.warn("Could not save the last scene", e);
+  }
+};
+
+export interface LaunchScene extends LastScene {
+  shared: boolean; // Opened from someone's link rather than picked up where this device left off
+}
+
+// A shared link opens the sender's scene, otherwise the last one used here comes back
+export const readLaunchScene = (): LaunchScene => {
+  if (hasSharedScene()) return { scene: readSharedSceneFromHash(), photoId: null, shared: true };
+  return { ...(loadLastScene() ?? { scene: DEFAULT_SCENE, photoId: null }), shared: false };
+};
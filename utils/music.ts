@@ -0,0 +1,119 @@
+import { AudioLevels } from '../types';
+
+export const SILENT_LEVELS: AudioLevels = { bass: 0, treble: 0, beat: 0 };
+
+// Frequency bands, in Hz
+const BASS_BAND = { from: 20, to: 150 };
+const TREBLE_BAND = { from: 4000, to: 12000 };
+
+// A beat is bass clearly above its recent average
+const BEAT_THRESHOLD = 1.35;
+const BEAT_MIN_BASS = 0.3;
+const BEAT_DECAY = 0.9;
+
+/**
+ * Plays a local audio file through Web Audio and measures it every frame.
+ * The analyser taps the signal before the volume stages, so muting or fading
+ * the music does not stop the particles from dancing to it.
+ */
+export class MusicPlayer {
+  private audio: HTMLAudioElement;
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private fadeGain: GainNode | null = null;
+  private muteGain: GainNode | null = null;
+  private spectrum = new Uint8Array(0);
+  private averageBass = 0;
+  private beat = 0;
+  private muted = false;
+  private faded = false;
+
+  constructor(src: string) {
+    this.audio = new Audio(src);
+    this.audio.loop = true;
+  }
+
+  get started() {
+    return this.context !== null;
+  }
+
+  /**
+   * Builds the audio graph and starts playback. Browsers only allow this from a user
+   * gesture, so call it from a tap or click handler.
+   */
+  async start() {
+    if (!this.context) {
+      const context = new AudioContext();
+      const source = context.createMediaElementSource(this.audio);
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      analyser.smoothingTimeConstant = 0.8;
+      const fadeGain = context.createGain();
+      const muteGain = context.createGain();
+      fadeGain.gain.value = this.faded ? 0 : 1;
+      muteGain.gain.value = this.muted ? 0 : 1;
+
+      source.connect(analyser);
+      source.connect(fadeGain).connect(muteGain).connect(context.destination);
+
+      this.context = context;
+      this.analyser = analyser;
+      this.fadeGain = fadeGain;
+      this.muteGain = muteGain;
+      this.spectrum = new Uint8Array(analyser.frequencyBinCount);
+    }
+    await this.context.resume();
+    await this.audio.play();
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    if (this.context && this.muteGain) {
+      this.muteGain.gain.setTargetAtTime(muted ? 0 : 1, this.context.currentTime, 0.05);
+    }
+  }
+
+  // Fades the music out (or back in) over `seconds`
+  fade(out: boolean, seconds: number) {
+    this.faded = out;
+    const context = this.context;
+    const gain = this.fadeGain?.gain;
+    if (!context || !gain) return;
+    gain.cancelScheduledValues(context.currentTime);
+    gain.setValueAtTime(gain.value, context.currentTime);
+    gain.linearRampToValueAtTime(out ? 0 : 1, context.currentTime + seconds);
+  }
+
+  // Energy of the current frame, call once per animation frame
+  readLevels(): AudioLevels {
+    const analyser = this.analyser;
+    if (!analyser || !this.context || this.audio.paused) return SILENT_LEVELS;
+
+    analyser.getByteFrequencyData(this.spectrum);
+    const binWidth = this.context.sampleRate / analyser.fftSize;
+    const bandLevel = ({ from, to }: { from: number; to: number }) => {
+      const start = Math.max(0, Math.floor(from / binWidth));
+      const end = Math.min(this.spectrum.length, Math.max(start + 1, Math.ceil(to / binWidth)));
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += this.spectrum[i];
+      return sum / ((end - start) * 255);
+    };
+
+    const bass = bandLevel(BASS_BAND);
+    // High frequencies carry far less energy, boost them into a usable range
+    const treble = Math.min(1, bandLevel(TREBLE_BAND) * 2.5);
+
+    if (bass > BEAT_MIN_BASS && bass > this.averageBass * BEAT_THRESHOLD) this.beat = 1;
+    else this.beat *= BEAT_DECAY;
+    this.averageBass = this.averageBass * 0.95 + bass * 0.05;
+
+    return { bass, treble, beat: this.beat };
+  }
+
+  dispose() {
+    this.audio.pause();
+    if (this.audio.src.startsWith('blob:')) URL.revokeObjectURL(this.audio.src);
+    this.audio.removeAttribute('src');
+    this.context?.close().catch(() => {});
+  }
+}
@@ -0,0 +1,46 @@
+// Uploads are scaled down to this longest side: plenty for the screen, and sampling stays fast
+const MAX_PHOTO_SIDE = 2048;
+const JPEG_QUALITY = 0.9;
+
+const readAsDataURL = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Formats that may carry transparency stay PNG, so background removal still sees it
+const keepsAlpha = (type: string) => type === 'image/png' || type === 'image/webp' || type === 'image/gif';
+
+/**
+ * Turns an uploaded photo into a data URL that is upright and at most MAX_PHOTO_SIDE wide or tall.
+ * Phone cameras store the picture sideways plus an EXIF orientation tag; decoding with
+ * `imageOrientation: 'from-image'` applies the tag, and re-encoding bakes it into the pixels.
+ * Falls back to the original file when the browser can't decode it.
+ */
+export const preparePhoto = async (file: File): Promise<string> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (e) {
+    console.warn("Could not decode photo, using it as is", e);
+    return readAsDataURL(file);
+  }
+
+  try {
+    const scale = Math.min(1, MAX_PHOTO_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return readAsDataURL(file);
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return keepsAlpha(file.type)
+      ? canvas.toDataURL('image/png')
+      : canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,98 @@
+// Uploaded photos, kept in IndexedDB so they are still there after a reload or offline.
+// Full photos and thumbnails live in separate stores, so listing the library never loads
+// the photos themselves.
+const DB_NAME = 'noel-dreamscape';
+const DB_VERSION = 1;
+const PHOTOS = 'photos';
+const THUMBNAILS = 'thumbnails';
+
+const THUMBNAIL_SIDE = 160;
+
+export interface LibraryPhoto {
+  id: string;
+  thumbnail: string;
+  addedAt: number;
+}
+
+interface StoredPhoto {
+  id: string;
+  src: string;
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (database) return database;
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(PHOTOS, { keyPath: 'id' });
+      request.result.createObjectStore(THUMBNAILS, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open (private browsing, storage turned off) may work on the next try
+  opening.catch(() => { database = null; });
+  database = opening;
+  return opening;
+};
+
+// A small square crop from the middle of the photo
+const makeThumbnail = async (src: string) => {
+  const img = new Image();
+  img.src = src;
+  await img.decode();
+  const side = Math.min(img.naturalWidth, img.naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = THUMBNAIL_SIDE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is unavailable");
+  ctx.drawImage(img, (img.naturalWidth - side) / 2, (img.naturalHeight - side) / 2, side, side, 0, 0, THUMBNAIL_SIDE, THUMBNAIL_SIDE);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+// Newest first
+export const listPhotos = async (): Promise<LibraryPhoto[]> => {
+  const db = await openDatabase();
+  const photos = await promisify(db.transaction(THUMBNAILS).objectStore(THUMBNAILS).getAll() as IDBRequest<LibraryPhoto[]>);
+  return photos.sort((a, b) => b.addedAt - a.addedAt);
+};
+
+// Takes a prepared photo (see utils/photo.ts) and returns its id
+export const savePhoto = async (src: string): Promise<string> => {
+  const thumbnail = await makeThumbnail(src);
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const db = await openDatabase();
+  const tx = db.transaction([PHOTOS, THUMBNAILS], 'readwrite');
+  tx.objectStore(PHOTOS).put({ id, src } satisfies StoredPhoto);
+  tx.objectStore(THUMBNAILS).put({ id, thumbnail, addedAt: Date.now() } satisfies LibraryPhoto);
+  await completion(tx);
+  return id;
+};
+
+// Resolves to null for photos that were deleted meanwhile
+export const loadPhoto = async (id: string): Promise<string | null> => {
+  const db = await openDatabase();
+  const photo = await promisify(db.transaction(PHOTOS).objectStore(PHOTOS).get(id) as IDBRequest<StoredPhoto | undefined>);
+  return photo?.src ?? null;
+};
+
+export const deletePhoto = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([PHOTOS, THUMBNAILS], 'readwrite');
+  tx.objectStore(PHOTOS).delete(id);
+  tx.objectStore(THUMBNAILS).delete(id);
+  await completion(tx);
+};
@@ -0,0 +1,90 @@
+import { ParticleSettings, SettingsPreset } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { sanitizeSettings } from './settings';
+
+const STORAGE_KEY = 'noel-dreamscape:presets';
+const PRESET_FILE_KIND = 'noel-dreamscape-preset';
+const PRESET_FILE_VERSION = 1;
+
+export const BUILT_IN_PRESETS: SettingsPreset[] = [
+  {
+    name: 'Calm',
+    builtIn: true,
+    settings: { gap: 6, size: 2.0, friction: 0.94, ease: 0.04, breathIntensity: 2, morphDuration: 2.5, pointerRadius: 120, pointerStrength: 10 }
+  },
+  {
+    name: 'Sparkly',
+    builtIn: true,
+    settings: { gap: 5, size: 1.5, friction: 0.85, ease: 0.15, breathIntensity: 4, morphDuration: 1, pointerRadius: 80, pointerStrength: 30 }
+  },
+  {
+    name: 'Dense photo',
+    builtIn: true,
+    settings: { gap: 3, size: 1.2, friction: 0.9, ease: 0.1, breathIntensity: 0.5, morphDuration: 1.5, pointerRadius: 60, pointerStrength: 20 }
+  }
+];
+
+const readPreset = (input: unknown): SettingsPreset | null => {
+  if (typeof input !== 'object' || input === null) return null;
+  const { name, settings } = input as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) return null;
+  return { name: name.trim().slice(0, 40), settings: sanitizeSettings(settings, DEFAULT_SETTINGS) };
+};
+
+// --- localStorage ---
+export const loadSavedPresets = (): SettingsPreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(readPreset).filter((p): p is SettingsPreset => p !== null);
+  } catch (e) {
+    console.warn("Could not read saved presets", e);
+    return [];
+  }
+};
+
+export const storeSavedPresets = (presets: SettingsPreset[]) => {
+  try {
+    const data = presets.map(({ name, settings }) => ({ name, settings }));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (e) {
+    console.warn("Could not save presets", e);
+  }
+};
+
+// --- JSON files ---
+export const downloadPreset = (name: string, settings: ParticleSettings) => {
+  const file = { kind: PRESET_FILE_KIND, version: PRESET_FILE_VERSION, name, settings };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'preset'}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Throws with a readable message so the panel can show what went wrong
+export const parsePresetFile = (text: string): SettingsPreset => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  const file = parsed as Record<string, unknown>;
+  if (typeof parsed !== 'object' || parsed === null || file.kind !== PRESET_FILE_KIND) {
+    throw new Error("File is not a Noël Dreamscape preset");
+  }
+  if (typeof file.version !== 'number' || file.version > PRESET_FILE_VERSION) {
+    throw new Error("Preset was made with a newer version");
+  }
+
+  const preset = readPreset(file);
+  if (!preset) throw new Error("Preset has no name");
+  return preset;
+};
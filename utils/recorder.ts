@@ -0,0 +1,226 @@
+import { LoveMessage, RGB, Theme } from '../types';
+import { MESSAGE_FONTS } from '../constants';
+
+export interface VideoResolution {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const VIDEO_RESOLUTIONS: VideoResolution[] = [
+  { id: '720p', label: '720p', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: 'square', label: 'Square', width: 1080, height: 1080 },
+  { id: 'story', label: 'Story', width: 1080, height: 1920 }
+];
+
+export const VIDEO_FRAME_RATES = [24, 30, 60];
+
+// The scripted sequence, as shares of the total duration
+export type RecordingPhase = 'assemble' | 'breathe' | 'reveal';
+const PHASES: { phase: RecordingPhase; until: number }[] = [
+  { phase: 'assemble', until: 0.3 },
+  { phase: 'breathe', until: 0.65 },
+  { phase: 'reveal', until: 1 }
+];
+
+export interface RecordingOptions {
+  source: HTMLCanvasElement;
+  durationSeconds: number;
+  fps: number;
+  resolution: VideoResolution;
+  // Colors and fonts of the backdrop and the message card
+  theme: Theme;
+  // When set, the message card is drawn over the particles during the reveal phase
+  overlay?: { message: LoveMessage; backgroundImage: string };
+  onPhase?: (phase: RecordingPhase) => void;
+  onProgress?: (progress: number) => void;
+}
+
+export class RecordingCancelledError extends Error {
+  constructor() {
+    super("Recording cancelled");
+    this.name = 'RecordingCancelledError';
+  }
+}
+
+export interface RecordingSession {
+  result: Promise<Blob>;
+  cancel(): void;
+}
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+const pickMimeType = () =>
+  ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+const fontFamily = (id: string) => MESSAGE_FONTS.find(f => f.id === id)?.family ?? 'serif';
+
+const loadImage = (src: string) => new Promise<HTMLImageElement | null>(resolve => {
+  const img = new Image();
+  if (src.startsWith('http')) img.crossOrigin = "Anonymous";
+  img.onload = () => resolve(img);
+  // The video still works without the backdrop
+  img.onerror = () => resolve(null);
+  img.src = src;
+});
+
+// Scales `source` to cover the target, like `background-size: cover`
+const drawCover = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, sw: number, sh: number, width: number, height: number) => {
+  const scale = Math.max(width / sw, height / sh);
+  const w = sw * scale;
+  const h = sh * scale;
+  ctx.drawImage(source, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+const rgba = ({ r, g, b }: RGB, alpha: number) => `rgba(${r}, ${g}, ${b}, ${alpha})`;
+
+// Canvas version of the Layer 3 card: same fonts, colors and stacking as LoveMessageCard
+const drawMessage = (ctx: CanvasRenderingContext2D, message: LoveMessage, theme: Theme, width: number, height: number, opacity: number) => {
+  const unit = Math.min(width, height) / 100;
+  const cx = width / 2;
+  const cy = height / 2;
+
+  ctx.save();
+  ctx.globalAlpha = opacity;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  ctx.shadowColor = rgba(theme.highlight[400], 0.4);
+  ctx.shadowBlur = unit * 3;
+  ctx.fillStyle = rgba(theme.highlight[100], 0.95);
+  ctx.font = `${unit * 14}px ${fontFamily(message.headlineFont)}`;
+  ctx.fillText(message.headline, cx, cy - unit * 14, width * 0.9);
+
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+  ctx.shadowBlur = unit;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.font = `italic ${unit * 7}px ${fontFamily(message.subtitleFont)}`;
+  ctx.fillText(message.subtitle, cx, cy, width * 0.9);
+
+  ctx.shadowBlur = 0;
+  if (message.quote) {
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.font = `italic ${unit * 3}px ${theme.fonts.display}`;
+    ctx.fillText(`"${message.quote}"`, cx, cy + unit * 12, width * 0.85);
+  }
+
+  ctx.fillStyle = rgba(theme.highlight[200], 0.8);
+  ctx.font = `600 ${unit * 1.8}px ${theme.fonts.eyebrow}`;
+  ctx.fillText(message.tagline.toUpperCase().split('').join(' '), cx, cy + unit * 20, width * 0.8);
+  ctx.restore();
+};
+
+/**
+ * Records the particle canvas into a WebM video.
+ * A hidden canvas at the chosen resolution is repainted every frame with the particle
+ * canvas (and the message during the reveal), and that canvas is what MediaRecorder captures.
+ */
+export const recordScene = (options: RecordingOptions): RecordingSession => {
+  const { source, durationSeconds, fps, resolution, theme, overlay, onPhase, onProgress } = options;
+  const { width, height } = resolution;
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d');
+
+  let frameId = 0;
+  let cancelled = false;
+  let recorder: MediaRecorder | null = null;
+
+  const result = new Promise<Blob>((resolve, reject) => {
+    if (!ctx) {
+      reject(new Error("Could not create recording canvas"));
+      return;
+    }
+
+    const start = async () => {
+      const background = overlay ? await loadImage(overlay.backgroundImage) : null;
+      if (overlay) {
+        const families = [fontFamily(overlay.message.headlineFont), fontFamily(overlay.message.subtitleFont), theme.fonts.display, theme.fonts.eyebrow];
+        await Promise.all(families.map(family => document.fonts.load(`40px ${family}`).catch(() => [])));
+      }
+      if (cancelled) {
+        reject(new RecordingCancelledError());
+        return;
+      }
+
+      const stream = output.captureStream(fps);
+      const mimeType = pickMimeType();
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        if (cancelled) reject(new RecordingCancelledError());
+        else resolve(new Blob(chunks, { type: mimeType || 'video/webm' }));
+      };
+
+      let phase: RecordingPhase | null = null;
+      const durationMs = durationSeconds * 1000;
+      const startedAt = performance.now();
+
+      const paint = (now: number) => {
+        const progress = Math.min(1, (now - startedAt) / durationMs);
+        const current = PHASES.find(p => progress <= p.until)?.phase ?? 'reveal';
+        if (current !== phase) {
+          phase = current;
+          onPhase?.(current);
+        }
+        onProgress?.(progress);
+
+        ctx.fillStyle = rgba(theme.background, 1);
+        ctx.fillRect(0, 0, width, height);
+        drawCover(ctx, source, source.width, source.height, width, height);
+
+        if (overlay && current === 'reveal') {
+          const revealStart = PHASES[1].until;
+          const t = Math.min(1, (progress - revealStart) / ((1 - revealStart) * 0.5));
+          if (background) {
+            ctx.save();
+            ctx.globalAlpha = t;
+            ctx.filter = 'blur(6px) brightness(0.6) saturate(1.2)';
+            drawCover(ctx, background, background.width, background.height, width, height);
+            ctx.restore();
+          } else {
+            ctx.fillStyle = rgba(theme.background, 0.7 * t);
+            ctx.fillRect(0, 0, width, height);
+          }
+          drawMessage(ctx, overlay.message, theme, width, height, t);
+        }
+
+        if (progress >= 1) {
+          recorder?.stop();
+          return;
+        }
+        frameId = requestAnimationFrame(paint);
+      };
+
+      recorder.start(1000);
+      frameId = requestAnimationFrame(paint);
+    };
+
+    start().catch(reject);
+  });
+
+  return {
+    result,
+    cancel: () => {
+      cancelled = true;
+      cancelAnimationFrame(frameId);
+      if (recorder && recorder.state !== 'inactive') recorder.stop();
+    }
+  };
+};
+
+export const downloadVideo = (blob: Blob, name = 'noel-dreamscape') => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}.webm`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
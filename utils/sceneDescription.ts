@@ -0,0 +1,25 @@
+import { SceneMode, TextSceneOptions } from '../types';
+import { getSceneGenerator } from '../particles/sceneGenerators';
+
+interface SceneSummary {
+  mode: SceneMode;
+  sceneId: string;
+  text: TextSceneOptions;
+  photoCount: number;
+  snow: boolean;
+}
+
+// Text alternative for the particle canvas, read by screen readers in place of the animation
+export const describeScene = ({ mode, sceneId, text, photoCount, snow }: SceneSummary) => {
+  let scene: string;
+  if (mode === 'generative') {
+    scene = getSceneGenerator(sceneId).description;
+  } else if (mode === 'text') {
+    scene = `The words "${text.text.replace(/\s*\n\s*/g, ' ').trim()}" written in glowing particles`;
+  } else if (photoCount > 1) {
+    scene = `A slideshow of ${photoCount} photos, each redrawn in glowing particles`;
+  } else {
+    scene = "A photo redrawn in thousands of glowing particles";
+  }
+  return snow ? `${scene}, with snow falling.` : `${scene}.`;
+};
@@ -0,0 +1,16 @@
+// Production builds only, a worker caching the dev server's modules would serve stale code
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', async () => {
+    try {
+      await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+      const registration = await navigator.serviceWorker.ready;
+      // The first visit loaded its scripts, styles and fonts before the worker existed
+      const urls = [location.href, ...performance.getEntriesByType('resource').map(entry => entry.name)];
+      registration.active?.postMessage({ type: 'cache-urls', urls });
+    } catch (e) {
+      console.warn("Offline support unavailable", e);
+    }
+  });
+};
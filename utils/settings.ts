@@ -0,0 +1,36 @@
+import { ParticleSettings } from '../types';
+
+interface Range {
+  min: number;
+  max: number;
+}
+
+// Accepted range for every particle setting. Anything outside is clamped so a
+// hand-edited link or file can't produce a frozen or exploding scene.
+export const SETTINGS_LIMITS: Record<keyof ParticleSettings, Range> = {
+  gap: { min: 2, max: 12 },
+  size: { min: 1, max: 6 },
+  friction: { min: 0.5, max: 0.99 },
+  ease: { min: 0.01, max: 0.2 },
+  breathIntensity: { min: 0, max: 10 },
+  morphDuration: { min: 0, max: 5 },
+  pointerRadius: { min: 20, max: 250 },
+  pointerStrength: { min: 0, max: 60 }
+};
+
+const clamp = (value: number, { min, max }: Range) => Math.min(max, Math.max(min, value));
+
+// Builds a complete settings object from untrusted input, falling back per field
+export const sanitizeSettings = (input: unknown, fallback: ParticleSettings): ParticleSettings => {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  const result = { ...fallback };
+
+  (Object.keys(SETTINGS_LIMITS) as (keyof ParticleSettings)[]).forEach(key => {
+    const value = source[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      result[key] = clamp(value, SETTINGS_LIMITS[key]);
+    }
+  });
+
+  return result;
+};
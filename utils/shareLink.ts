@@ -0,0 +1,308 @@
+import { LightSettings, LoveMessage, MessageFont, ParticleSettings, PhotoFraming, PhotoSamplingOptions, SamplingStyle, SceneMode, StoryStep, StoryTransition, TextSceneOptions, TreeOptions, View3DSettings } from '../types';
+import { DEFAULT_FRAMING, DEFAULT_IMAGE, DEFAULT_LIGHTS, DEFAULT_MESSAGE, DEFAULT_PHOTO_SAMPLING, DEFAULT_SEED, DEFAULT_SETTINGS, DEFAULT_STORY_SECONDS, DEFAULT_TEXT_SCENE, DEFAULT_TREE, DEFAULT_VIEW_3D, MAX_STORY_STEPS, MESSAGE_FONTS, ORNAMENT_PALETTES, TEXT_PALETTES, THEME_PALETTE_ID } from '../constants';
+import { DEFAULT_THEME_ID, THEMES } from '../themes';
+import { sanitizeSettings } from './settings';
+import { MAX_CROP } from './framing';
+import { DEFAULT_SCENE_ID, hasSceneGenerator } from '../particles/sceneGenerators';
+
+// Bump when the payload shape changes, and teach `migrate` how to read the old one
+export const SHARE_LINK_VERSION = 1;
+
+const HASH_KEY = 's';
+// Longer message fields are cut when a link is read, so the composer stops there too
+export const MAX_TEXT_LENGTH = 280;
+
+// Everything a recipient needs to rebuild the card
+export interface SharedScene {
+  message: LoveMessage;
+  theme: string;
+  mode: SceneMode;
+  scene: string; // Generator id for the 'generative' mode
+  tree: TreeOptions;
+  lights: LightSettings;
+  settings: ParticleSettings;
+  image: string;
+  text: TextSceneOptions;
+  sampling: PhotoSamplingOptions;
+  framing: PhotoFraming;
+  story: StoryStep[]; // Empty for a single scene
+  seed: number; // Makes the recipient's scene particle for particle the sender's
+  view3d: View3DSettings;
+}
+
+interface SharePayload {
+  v: number;
+  message: LoveMessage;
+  theme?: string;
+  mode: SceneMode;
+  scene?: string;
+  tree?: TreeOptions;
+  lights?: LightSettings;
+  settings: ParticleSettings;
+  image?: string;
+  text?: TextSceneOptions;
+  sampling?: PhotoSamplingOptions;
+  framing?: PhotoFraming;
+  story?: StoryStep[];
+  seed?: number;
+  view3d?: View3DSettings;
+}
+
+export const DEFAULT_SCENE: SharedScene = {
+  message: DEFAULT_MESSAGE,
+  theme: DEFAULT_THEME_ID,
+  mode: 'generative',
+  scene: DEFAULT_SCENE_ID,
+  tree: DEFAULT_TREE,
+  lights: DEFAULT_LIGHTS,
+  settings: DEFAULT_SETTINGS,
+  image: DEFAULT_IMAGE,
+  text: DEFAULT_TEXT_SCENE,
+  sampling: DEFAULT_PHOTO_SAMPLING,
+  framing: DEFAULT_FRAMING,
+  story: [],
+  seed: DEFAULT_SEED,
+  view3d: DEFAULT_VIEW_3D
+};
+
+// Uploaded photos live in memory as data URLs and are far too large for a link,
+// so only plain paths and http(s) URLs can travel with it.
+export const isShareableImage = (src: string) => !src.startsWith('data:') && !src.startsWith('blob:');
+
+// --- Base64url helpers (UTF-8 safe, so accents and emoji survive) ---
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+// --- Validation ---
+const readText = (value: unknown, fallback: string) =>
+  typeof value === 'string' ? value.slice(0, MAX_TEXT_LENGTH) : fallback;
+
+const readFont = (value: unknown, fallback: MessageFont) =>
+  MESSAGE_FONTS.find(font => font.id === value)?.id ?? fallback;
+
+const readMessage = (input: unknown): LoveMessage => {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  return {
+    headline: readText(source.headline, DEFAULT_MESSAGE.headline),
+    subtitle: readText(source.subtitle, DEFAULT_MESSAGE.subtitle),
+    quote: readText(source.quote, DEFAULT_MESSAGE.quote),
+    tagline: readText(source.tagline, DEFAULT_MESSAGE.tagline),
+    headlineFont: readFont(source.headlineFont, DEFAULT_MESSAGE.headlineFont),
+    subtitleFont: readFont(source.subtitleFont, DEFAULT_MESSAGE.subtitleFont)
+  };
+};
+
+const readTheme = (value: unknown) => THEMES.find(theme => theme.id === value)?.id ?? DEFAULT_THEME_ID;
+
+const readMode = (value: unknown): SceneMode => (value === 'image' || value === 'text' ? value : 'generative');
+
+// Scenes from generators the recipient doesn't have show the tree
+const readSceneId = (value: unknown) =>
+  typeof value === 'string' && hasSceneGenerator(value) ? value : DEFAULT_SCENE_ID;
+
+const readTextScene = (input: unknown): TextSceneOptions => {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  return {
+    text: readText(source.text, DEFAULT_TEXT_SCENE.text),
+    font: readFont(source.font, DEFAULT_TEXT_SCENE.font),
+    coloring: source.coloring === 'palette' ? 'palette' : 'gradient',
+    paletteId: TEXT_PALETTES.find(p => p.id === source.paletteId)?.id ?? DEFAULT_TEXT_SCENE.paletteId
+  };
+};
+
+const readNumber = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const readSeed = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffffff ? value : DEFAULT_SEED;
+
+const SAMPLING_STYLES: SamplingStyle[] = ['grid', 'edges', 'stochastic', 'dither'];
+
+const readSampling = (input: unknown): PhotoSamplingOptions => {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  return {
+    style: SAMPLING_STYLES.find(style => style === source.style) ?? DEFAULT_PHOTO_SAMPLING.style,
+    removeBackground: typeof source.removeBackground === 'boolean' ? source.removeBackground : DEFAULT_PHOTO_SAMPLING.removeBackground,
+    backgroundTolerance: readNumber(source.backgroundTolerance, 10, 150, DEFAULT_PHOTO_SAMPLING.backgroundTolerance),
+    festivePalette: typeof source.festivePalette === 'boolean' ? source.festivePalette : DEFAULT_PHOTO_SAMPLING.festivePalette
+  };
+};
+
+const TREE_STARS: TreeOptions['star'][] = ['star', 'glow', 'none'];
+
+const readTree = (input: unknown): TreeOptions => {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  return {
+    tiers: Math.round(readNumber(source.tiers, 1, 5, DEFAULT_TREE.tiers)),
+    aspect: readNumber(source.aspect, 0.4, 1, DEFAULT_TREE.aspect),
+    needles: Math.round(readNumber(source.needles, 500, 4000, DEFAULT_TREE.needles)),
+    ornaments: Math.round(readNumber(source.ornaments, 0, 300, DEFAULT_TREE.ornaments)),
+    garlands: Math.round(readNumber(source.garlands, 0, 4, DEFAULT_TREE.garlands)),
+    star: TREE_STARS.find(star => star === source.star) ?? DEFAULT_TREE.star,
+    paletteId: source.paletteId === THEME_PALETTE_ID
+      ? THEME_PALETTE_ID
+      : ORNAMENT_PALETTES.find(p => p.id === source.paletteId)?.id ?? DEFAULT_TREE.paletteId
+  };
+};
+
+const LIGHT_PROGRAMS: LightSettings['program'][] = ['steady', 'twinkle', 'chase', 'cycle', 'fade'];
+
+const readLights = (input: unknown): LightSettings => {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  return {
+    program: LIGHT_PROGRAMS.find(program => program === source.program) ?? DEFAULT_LIGHTS.program,
+    speed: readNumber(source.speed, 0.25, 3, DEFAULT_LIGHTS.speed)
+  };
+};
+
+const readView3D = (input: unknown): View3DSettings => {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  return {
+    enabled: typeof source.enabled === 'boolean' ? source.enabled : DEFAULT_VIEW_3D.enabled,
+    autoRotate: typeof source.autoRotate === 'boolean' ? source.autoRotate : DEFAULT_VIEW_3D.autoRotate
+  };
+};
+
+const readFraming = (input: unknown): PhotoFraming => {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  const crop = (typeof source.crop === 'object' && source.crop !== null ? source.crop : {}) as Record<string, unknown>;
+  const rotation = [0, 90, 180, 270].find(r => r === source.rotation) as PhotoFraming['rotation'] | undefined;
+  return {
+    fit: source.fit === 'cover' ? 'cover' : 'contain',
+    zoom: readNumber(source.zoom, 1, 4, DEFAULT_FRAMING.zoom),
+    focusX: readNumber(source.focusX, 0, 1, DEFAULT_FRAMING.focusX),
+    focusY: readNumber(source.focusY, 0, 1, DEFAULT_FRAMING.focusY),
+    rotation: rotation ?? DEFAULT_FRAMING.rotation,
+    crop: {
+      left: readNumber(crop.left, 0, MAX_CROP, 0),
+      top: readNumber(crop.top, 0, MAX_CROP, 0),
+      right: readNumber(crop.right, 0, MAX_CROP, 0),
+      bottom: readNumber(crop.bottom, 0, MAX_CROP, 0)
+    }
+  };
+};
+
+const readImage = (value: unknown) => {
+  if (typeof value !== 'string' || !value || !isShareableImage(value)) return DEFAULT_IMAGE;
+  // Only same-origin paths and web URLs, never javascript: or similar schemes
+  if (/^[a-z][a-z0-9+.-]*:/i.test(value) && !/^https?:\/\//i.test(value)) return DEFAULT_IMAGE;
+  return value;
+};
+
+const STORY_TRANSITIONS: StoryTransition[] = ['morph', 'scatter', 'cut'];
+
+// Like the main scene, a photo step whose photo stayed on the sender's device shows the tree
+const readStoryStep = (input: unknown, index: number): StoryStep => {
+  const source = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  const image = typeof source.image === 'string' && source.image ? readImage(source.image) : '';
+  const mode = readMode(source.mode);
+  return {
+    id: `shared-${index}`,
+    mode: mode === 'image' && !image ? 'generative' : mode,
+    sceneId: readSceneId(source.sceneId),
+    image,
+    framing: readFraming(source.framing),
+    text: readText(source.text, DEFAULT_TEXT_SCENE.text),
+    caption: readText(source.caption, ''),
+    advance: source.advance === 'timer' ? 'timer' : 'tap',
+    seconds: Math.round(readNumber(source.seconds, 2, 20, DEFAULT_STORY_SECONDS)),
+    transition: STORY_TRANSITIONS.find(transition => transition === source.transition) ?? 'morph'
+  };
+};
+
+const readStory = (input: unknown): StoryStep[] =>
+  Array.isArray(input) ? input.slice(0, MAX_STORY_STEPS).map(readStoryStep) : [];
+
+// Upgrades older payloads to the current shape. Returns null for unknown versions.
+const migrate = (raw: Record<string, unknown>): Record<string, unknown> | null => {
+  if (raw.v === SHARE_LINK_VERSION) return raw;
+  return null;
+};
+
+export const encodeSharedScene = (scene: SharedScene): string => {
+  const payload: SharePayload = {
+    v: SHARE_LINK_VERSION,
+    message: scene.message,
+    theme: scene.theme,
+    mode: scene.mode,
+    settings: scene.settings,
+    seed: scene.seed
+  };
+  if (isShareableImage(scene.image)) payload.image = scene.image;
+  payload.lights = scene.lights;
+  if (scene.view3d.enabled) payload.view3d = scene.view3d;
+  if (scene.mode === 'generative') payload.scene = scene.scene;
+  if (scene.mode === 'generative' && scene.scene === 'tree') payload.tree = scene.tree;
+  if (scene.mode === 'text') payload.text = scene.text;
+  if (scene.mode === 'image') {
+    payload.sampling = scene.sampling;
+    payload.framing = scene.framing;
+  }
+  // Steps only carry the photo they show, and only one that can travel
+  if (scene.story.length > 0) {
+    payload.story = scene.story.map(step => ({
+      ...step,
+      image: step.mode === 'image' && isShareableImage(step.image) ? step.image : ''
+    }));
+  }
+  return toBase64Url(JSON.stringify(payload));
+};
+
+// Never throws: anything unreadable falls back to the default scene
+export const decodeSharedScene = (encoded: string): SharedScene => {
+  try {
+    const parsed: unknown = JSON.parse(fromBase64Url(encoded));
+    if (typeof parsed !== 'object' || parsed === null) return DEFAULT_SCENE;
+
+    const payload = migrate(parsed as Record<string, unknown>);
+    if (!payload) {
+      console.warn("Unsupported share link version:", (parsed as Record<string, unknown>).v);
+      return DEFAULT_SCENE;
+    }
+
+    const mode = readMode(payload.mode);
+    return {
+      message: readMessage(payload.message),
+      theme: readTheme(payload.theme),
+      // The sender's photo stayed on their device, so show the tree instead of a stranger's default photo
+      mode: mode === 'image' && payload.image === undefined ? 'generative' : mode,
+      scene: readSceneId(payload.scene),
+      tree: readTree(payload.tree),
+      lights: readLights(payload.lights),
+      settings: sanitizeSettings(payload.settings, DEFAULT_SETTINGS),
+      image: readImage(payload.image),
+      text: readTextScene(payload.text),
+      sampling: readSampling(payload.sampling),
+      framing: readFraming(payload.framing),
+      story: readStory(payload.story),
+      seed: readSeed(payload.seed),
+      view3d: readView3D(payload.view3d)
+    };
+  } catch (e) {
+    console.warn("Ignoring malformed share link", e);
+    return DEFAULT_SCENE;
+  }
+};
+
+export const buildShareLink = (scene: SharedScene, location: Location = window.location) =>
+  `${location.origin}${location.pathname}${location.search}#${HASH_KEY}=${encodeSharedScene(scene)}`;
+
+export const hasSharedScene = (hash: string = window.location.hash) =>
+  new URLSearchParams(hash.replace(/^#/, '')).has(HASH_KEY);
+
+export const readSharedSceneFromHash = (hash: string = window.location.hash): SharedScene => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(HASH_KEY);
+  return encoded ? decodeSharedScene(encoded) : DEFAULT_SCENE;
+};
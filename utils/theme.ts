@@ -0,0 +1,24 @@
+import { RGB, Theme, ThemeShades } from '../types';
+
+// Space separated channels, the form Tailwind's `rgb(var(--x) / <alpha-value>)` colors expect
+const channels = ({ r, g, b }: RGB) => `${r} ${g} ${b}`;
+
+const SHADE_STEPS = [100, 200, 300, 400, 500, 900] as const;
+
+/**
+ * Points the CSS variables behind the accent-*, highlight-*, backdrop and font-display /
+ * font-eyebrow classes (see tailwind.config.js) at the theme, so switching themes restyles
+ * the whole page without re-rendering it.
+ */
+export const applyTheme = (theme: Theme, root: HTMLElement = document.documentElement) => {
+  const setShades = (name: string, colors: ThemeShades) => {
+    SHADE_STEPS.forEach(step => root.style.setProperty(`--${name}-${step}`, channels(colors[step])));
+  };
+  setShades('accent', theme.accent);
+  setShades('highlight', theme.highlight);
+  root.style.setProperty('--backdrop', channels(theme.background));
+  root.style.setProperty('--backdrop-soft', channels(theme.surface));
+  root.style.setProperty('--font-display', theme.fonts.display);
+  root.style.setProperty('--font-eyebrow', theme.fonts.eyebrow);
+  document.title = `${theme.strings.appName} - Particle Art`;
+};